@@ -0,0 +1,106 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import * as fs from "fs/promises"
+import { after, before, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import "should"
+import { ApiHandler } from "."
+import { CassetteApiHandler, hashRequest, openCassette } from "./cassette"
+import { ApiStream, ApiStreamChunk } from "./transform/stream"
+
+const model = { id: "claude", info: { supportsPromptCache: true, inputPrice: 3, outputPrice: 15 } }
+
+function countingHandler(): ApiHandler & { calls: number } {
+	const handler = {
+		calls: 0,
+		async *createMessage(): ApiStream {
+			handler.calls++
+			yield { type: "text", text: `Response ${handler.calls}` }
+			yield { type: "usage", inputTokens: 10, outputTokens: 5 }
+		},
+		getModel: () => model,
+	}
+	return handler
+}
+
+async function collect(stream: ApiStream): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+const userMessage = (text: string): Anthropic.Messages.MessageParam => ({
+	role: "user",
+	content: [{ type: "text", text }],
+})
+
+describe("CassetteApiHandler", () => {
+	const tmpDir = path.join(os.tmpdir(), "cline-test-" + Math.random().toString(36).slice(2))
+	const cassettePath = path.join(tmpDir, "cassette.json")
+
+	before(async () => {
+		await fs.mkdir(tmpDir, { recursive: true })
+	})
+
+	after(async () => {
+		try {
+			await fs.rm(tmpDir, { recursive: true, force: true })
+		} catch {
+			// Ignore cleanup errors
+		}
+	})
+
+	it("should ignore environment details when hashing requests", () => {
+		const withDetails = (time: string) =>
+			userMessage(`Fix the bug\n\n<environment_details>\n# Current Time\n${time}\n</environment_details>`)
+		hashRequest([withDetails("12:00")]).should.equal(hashRequest([withDetails("12:05")]))
+		hashRequest([userMessage("Fix the bug")]).should.not.equal(hashRequest([userMessage("Fix the other bug")]))
+	})
+
+	it("should replay recorded responses without the provider", async () => {
+		const provider = countingHandler()
+		const recorder = new CassetteApiHandler(openCassette({ mode: "record", path: cassettePath }), provider)
+		const first = await collect(recorder.createMessage("system", [userMessage("Task")]))
+		const second = await collect(recorder.createMessage("system", [userMessage("Task")]))
+		const other = await collect(recorder.createMessage("system", [userMessage("Other task")]))
+		provider.calls.should.equal(3)
+
+		const player = new CassetteApiHandler(openCassette({ mode: "replay", path: cassettePath }))
+		player.getModel().should.deepEqual(model)
+		;(
+			await collect(player.createMessage("a different system prompt", [userMessage("Other task")]))
+		).should.deepEqual(other)
+		// the same request made again gets the responses in recorded order
+		;(await collect(player.createMessage("system", [userMessage("Task")]))).should.deepEqual(first)
+		;(await collect(player.createMessage("system", [userMessage("Task")]))).should.deepEqual(second)
+	})
+
+	it("should answer unrecorded requests with an error chunk", async () => {
+		const player = new CassetteApiHandler(openCassette({ mode: "replay", path: cassettePath }))
+		const chunks = await collect(player.createMessage("system", [userMessage("Unknown task")]))
+		chunks.should.have.length(1)
+		chunks[0].should.have.properties({ type: "error", kind: "unknown" })
+	})
+
+	it("should continue the session when the handler is rebuilt for a new task or settings change", async () => {
+		const provider = countingHandler()
+		const recording = openCassette({ mode: "record", path: cassettePath })
+		const first = await collect(
+			new CassetteApiHandler(recording, provider).createMessage("system", [userMessage("Task")]),
+		)
+		const second = await collect(
+			new CassetteApiHandler(recording, provider).createMessage("system", [userMessage("Task")]),
+		)
+
+		const replay = openCassette({ mode: "replay", path: cassettePath })
+		replay.cassette.interactions.should.have.length(2)
+		;(
+			await collect(new CassetteApiHandler(replay).createMessage("system", [userMessage("Task")]))
+		).should.deepEqual(first)
+		;(
+			await collect(new CassetteApiHandler(replay).createMessage("system", [userMessage("Task")]))
+		).should.deepEqual(second)
+	})
+})
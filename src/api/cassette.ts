@@ -0,0 +1,139 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { createHash } from "crypto"
+import { readFileSync } from "fs"
+import fs from "fs/promises"
+import { ApiHandler, ApiToolDefinition } from "."
+import { ModelInfo } from "../shared/api"
+import { catchApiErrors } from "./errors"
+import { ApiStream, ApiStreamChunk } from "./transform/stream"
+
+export interface CassetteOptions {
+	mode: "record" | "replay"
+	path: string
+}
+
+interface CassetteInteraction {
+	hash: string
+	model: { id: string; info: ModelInfo }
+	systemPrompt: string
+	messages: Anthropic.Messages.MessageParam[]
+	tools?: ApiToolDefinition[]
+	chunks: ApiStreamChunk[]
+}
+
+export interface Cassette {
+	interactions: CassetteInteraction[]
+}
+
+// a recording or replay started with the cassette commands, shared by the handlers rebuilt for new tasks and settings changes so they continue it
+export interface CassetteSession extends CassetteOptions {
+	cassette: Cassette
+	replayed: Set<number> // interactions already replayed, so a request made again gets the next recorded response
+}
+
+// a recording starts a new cassette, overwriting the file once the first request is recorded
+export function openCassette(options: CassetteOptions): CassetteSession {
+	return {
+		...options,
+		cassette: options.mode === "replay" ? JSON.parse(readFileSync(options.path, "utf8")) : { interactions: [] },
+		replayed: new Set(),
+	}
+}
+
+const ENVIRONMENT_DETAILS_PATTERN = /<environment_details>[\s\S]*?<\/environment_details>/g
+
+/**
+ * Identifies a request by its messages and tools. The system prompt and environment details are left out since they include
+ * the working directory, time and open files, which differ between machines and runs of the same task.
+ */
+export function hashRequest(messages: Anthropic.Messages.MessageParam[], tools?: ApiToolDefinition[]): string {
+	const request = JSON.stringify({ messages, tools }, (_, value) =>
+		typeof value === "string" ? value.replace(ENVIRONMENT_DETAILS_PATTERN, "<environment_details />") : value,
+	)
+	return createHash("sha256").update(request).digest("hex")
+}
+
+/**
+ * Records every request and its streamed chunks to a cassette file, or replays them from one without any network access.
+ * Requests are replayed by hash, in recorded order when the same request was made more than once, so a task can be rerun deterministically.
+ */
+export class CassetteApiHandler implements ApiHandler {
+	private session: CassetteSession
+	private handler?: ApiHandler
+	private model?: { id: string; info: ModelInfo }
+
+	// the handler that makes the actual requests is only needed for recording
+	constructor(session: CassetteSession, handler?: ApiHandler) {
+		this.session = session
+		this.handler = handler
+		this.model = session.cassette.interactions[0]?.model
+	}
+
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		return this.session.mode === "replay"
+			? this.replay(messages, tools)
+			: this.record(systemPrompt, messages, tools)
+	}
+
+	private async *record(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		if (!this.handler) {
+			throw new Error("A cassette can only be recorded with an API handler")
+		}
+		// messages are copied up front since the conversation history is modified in place as the task continues
+		const hash = hashRequest(messages, tools)
+		const recordedMessages = structuredClone(messages)
+		const chunks: ApiStreamChunk[] = []
+		for await (const chunk of catchApiErrors(this.handler.createMessage(systemPrompt, messages, tools))) {
+			chunks.push(chunk)
+			yield chunk
+		}
+		this.session.cassette.interactions.push({
+			hash,
+			model: this.handler.getModel(),
+			systemPrompt,
+			messages: recordedMessages,
+			tools,
+			chunks,
+		})
+		try {
+			await fs.writeFile(this.session.path, JSON.stringify(this.session.cassette, null, 2))
+		} catch (error) {
+			// a failed recording shouldn't interrupt the task
+			console.error("Failed to write cassette:", error)
+		}
+	}
+
+	private async *replay(messages: Anthropic.Messages.MessageParam[], tools?: ApiToolDefinition[]): ApiStream {
+		const hash = hashRequest(messages, tools)
+		const index = this.session.cassette.interactions.findIndex(
+			(interaction, i) => interaction.hash === hash && !this.session.replayed.has(i),
+		)
+		if (index === -1) {
+			yield {
+				type: "error",
+				kind: "unknown",
+				message: `The cassette ${this.session.path} has no recorded response for this request (${hash.slice(0, 12)}).`,
+			}
+			return
+		}
+		this.session.replayed.add(index)
+		const interaction = this.session.cassette.interactions[index]
+		this.model = interaction.model
+		for (const chunk of interaction.chunks) {
+			yield chunk
+		}
+	}
+
+	// replays report the model that was recorded, so costs and context limits match the original task
+	getModel(): { id: string; info: ModelInfo } {
+		return this.handler?.getModel() ?? this.model ?? { id: "cassette", info: { supportsPromptCache: false } }
+	}
+}
@@ -0,0 +1,84 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import OpenAI from "openai"
+import "should"
+import { ApiStreamError, catchApiErrors, classifyApiError, getApiErrorKind, getApiErrorMessage } from "./errors"
+import { ApiStream, ApiStreamChunk } from "./transform/stream"
+
+// errors as the SDKs throw them for error responses, with the body each provider responds with
+const anthropicError = (status: number, type: string, message: string) =>
+	Anthropic.APIError.generate(status, { type: "error", error: { type, message } }, undefined, {})
+const openAiError = (status: number, message: string, code: string | null = null) =>
+	OpenAI.APIError.generate(status, { error: { message, type: "invalid_request_error", code } }, undefined, {})
+
+describe("classifyApiError", () => {
+	it("should classify errors by status code", () => {
+		classifyApiError(anthropicError(401, "authentication_error", "invalid x-api-key")).should.equal("auth")
+		classifyApiError(openAiError(402, "Payment Required")).should.equal("quota")
+		classifyApiError(
+			anthropicError(429, "rate_limit_error", "Number of requests has exceeded your rate limit"),
+		).should.equal("rate_limit")
+		classifyApiError(anthropicError(529, "overloaded_error", "Overloaded")).should.equal("server")
+		classifyApiError(openAiError(400, "Invalid value for 'model'")).should.equal("unknown")
+	})
+
+	it("should classify errors by message when the status is ambiguous", () => {
+		classifyApiError(
+			anthropicError(400, "invalid_request_error", "prompt is too long: 210000 tokens > 200000 maximum"),
+		).should.equal("context_overflow")
+		classifyApiError(
+			openAiError(400, "This model's maximum context length is 128000 tokens", "context_length_exceeded"),
+		).should.equal("context_overflow")
+		classifyApiError(openAiError(429, "You exceeded your current quota", "insufficient_quota")).should.equal(
+			"quota",
+		)
+		classifyApiError(
+			openAiError(400, "The response was filtered due to the content management policy", "content_filter"),
+		).should.equal("content_filter")
+	})
+
+	it("should classify connection errors and timeouts as server errors", () => {
+		const refused = Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:1"), { code: "ECONNREFUSED" })
+		classifyApiError(new Anthropic.APIConnectionError({ cause: refused })).should.equal("server")
+		classifyApiError(new OpenAI.APIConnectionError({ cause: refused })).should.equal("server")
+		classifyApiError(new Anthropic.APIConnectionTimeoutError()).should.equal("server")
+		classifyApiError(new OpenAI.APIConnectionTimeoutError()).should.equal("server")
+	})
+
+	it("should classify bedrock errors without a status", () => {
+		classifyApiError(Object.assign(new Error("denied"), { name: "AccessDeniedException" })).should.equal("auth")
+		classifyApiError(Object.assign(new Error("slow down"), { name: "ThrottlingException" })).should.equal(
+			"rate_limit",
+		)
+		classifyApiError(new Error("something went wrong")).should.equal("unknown")
+	})
+
+	it("should keep the kind of errors rethrown from error chunks", () => {
+		const error = new ApiStreamError({ type: "error", kind: "content_filter", message: "blocked" })
+		getApiErrorKind(error).should.equal("content_filter")
+	})
+
+	it("should read the provider's message from the response body", () => {
+		getApiErrorMessage(anthropicError(400, "invalid_request_error", "messages: field required")).should.equal(
+			"messages: field required",
+		)
+		getApiErrorMessage(openAiError(400, "Invalid value for 'model'")).should.equal("Invalid value for 'model'")
+	})
+})
+
+describe("catchApiErrors", () => {
+	it("should end the stream with an error chunk instead of throwing", async () => {
+		async function* failing(): ApiStream {
+			yield { type: "text", text: "Hel" }
+			throw openAiError(503, "Service Unavailable")
+		}
+		const chunks: ApiStreamChunk[] = []
+		for await (const chunk of catchApiErrors(failing())) {
+			chunks.push(chunk)
+		}
+		chunks.should.deepEqual([
+			{ type: "text", text: "Hel" },
+			{ type: "error", kind: "server", message: "Service Unavailable", status: 503, retryAfter: undefined },
+		])
+	})
+})
@@ -0,0 +1,200 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import OpenAI from "openai"
+import { ApiStream, ApiStreamErrorChunk } from "./transform/stream"
+
+const NETWORK_ERROR_CODES = ["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"]
+
+const CONTEXT_OVERFLOW_PATTERN =
+	/context[ _]length|context[ _]window|maximum context|prompt is too long|input is too long|too many (input )?tokens|reduce the length/i
+const CONTENT_FILTER_PATTERN = /content[ _]filter|content management policy|flagged|moderation|blocked due to safety/i
+const QUOTA_PATTERN = /insufficient[ _]quota|exceeded your current quota|quota exceeded|insufficient credits|billing/i
+const AUTH_PATTERN = /invalid (x-)?api[ _-]key|api key not valid|incorrect api key|unauthorized/i
+
+// bedrock reports these by name, sometimes without an HTTP status
+const AUTH_ERROR_NAMES = ["AccessDeniedException", "UnrecognizedClientException", "ExpiredTokenException"]
+const SERVER_ERROR_NAMES = ["ServiceUnavailableException", "InternalServerException", "ModelNotReadyException"]
+
+/**
+ * Normalized reasons a provider rejected a request, so callers can react without parsing provider-specific messages:
+ * - auth: missing, invalid or unauthorized credentials
+ * - quota: out of credits or over a spending/usage quota, which waiting won't fix
+ * - rate_limit: too many requests or tokens per minute, fixed by waiting
+ * - context_overflow: the prompt doesn't fit in the model's context window
+ * - content_filter: the prompt or response was blocked by a moderation or safety filter
+ * - server: the provider is overloaded, down or unreachable
+ * - unknown: anything else, e.g. a malformed request
+ */
+export type ApiErrorKind =
+	| "auth"
+	| "quota"
+	| "rate_limit"
+	| "context_overflow"
+	| "content_filter"
+	| "server"
+	| "unknown"
+
+/**
+ * Thrown by consumers of an ApiStream when they receive an error chunk, keeping its classification.
+ */
+export class ApiStreamError extends Error {
+	readonly kind: ApiErrorKind
+	readonly status?: number
+	readonly retryAfter?: number
+
+	constructor(chunk: ApiStreamErrorChunk) {
+		super(chunk.message)
+		this.name = "ApiStreamError"
+		this.kind = chunk.kind
+		this.status = chunk.status
+		this.retryAfter = chunk.retryAfter
+	}
+}
+
+/**
+ * The HTTP status of an error thrown by any of the provider SDKs, if the provider responded at all.
+ */
+export function getErrorStatus(error: any): number | undefined {
+	const status = error?.status ?? error?.statusCode ?? error?.response?.status ?? error?.$metadata?.httpStatusCode
+	return typeof status === "number" ? status : undefined
+}
+
+/**
+ * Reads a response header from an SDK error. Anthropic and OpenAI errors carry a plain object, fetch based clients a Headers instance.
+ */
+export function getErrorHeader(error: any, name: string): string | undefined {
+	const headers = error?.headers ?? error?.response?.headers
+	if (!headers) {
+		return undefined
+	}
+	const value = typeof headers.get === "function" ? headers.get(name) : headers[name]
+	return typeof value === "string" ? value : undefined
+}
+
+// the request never got a response: connection refused, DNS failure, timeout
+// the SDKs don't set a name on their connection errors, timeouts are a subclass of them
+export function isNetworkError(error: any): boolean {
+	const code = error?.code ?? error?.cause?.code
+	return (
+		NETWORK_ERROR_CODES.includes(code) ||
+		error instanceof Anthropic.APIConnectionError ||
+		error instanceof OpenAI.APIConnectionError
+	)
+}
+
+/**
+ * Whether anthropic is overloaded, which it reports with a 529 or with an overloaded_error event in a stream that already started.
+ * The SDK throws error events as a connection error without a status whose cause should be the event's payload, but this version casts the payload to an Error and loses it.
+ * Error events are rare and overloaded_error is by far the most common one, so a connection error whose cause isn't a network failure is taken to be one.
+ */
+export function isOverloadedError(error: any): boolean {
+	const type = error?.error?.error?.type ?? error?.cause?.error?.type
+	// network failures have a cause with an error code
+	const causeCode = error?.cause?.code
+	const isStreamErrorEvent =
+		error instanceof Anthropic.APIConnectionError &&
+		!(error instanceof Anthropic.APIConnectionTimeoutError) &&
+		causeCode === undefined
+	return getErrorStatus(error) === 529 || type === "overloaded_error" || isStreamErrorEvent
+}
+
+/**
+ * The provider's own error message without the status code and JSON body the SDKs put in Error.message.
+ */
+export function getApiErrorMessage(error: any): string {
+	// anthropic errors carry the whole response body, openai errors only its error object
+	const message = error?.error?.error?.message ?? error?.error?.message ?? error?.message
+	return typeof message === "string" && message ? message : String(error)
+}
+
+export function classifyApiError(error: any): ApiErrorKind {
+	const status = getErrorStatus(error)
+	const message = getApiErrorMessage(error)
+	const code = error?.code ?? error?.error?.code ?? error?.error?.type ?? error?.error?.error?.type
+	if (code === "content_filter" || CONTENT_FILTER_PATTERN.test(message)) {
+		return "content_filter"
+	}
+	if (status === 413 || code === "context_length_exceeded" || CONTEXT_OVERFLOW_PATTERN.test(message)) {
+		return "context_overflow"
+	}
+	if (status === 402 || code === "insufficient_quota" || QUOTA_PATTERN.test(message)) {
+		return "quota"
+	}
+	if (status === 401 || status === 403 || AUTH_ERROR_NAMES.includes(error?.name) || AUTH_PATTERN.test(message)) {
+		return "auth"
+	}
+	if (status === 429 || error?.name === "ThrottlingException") {
+		return "rate_limit"
+	}
+	if (
+		status === 408 ||
+		(status !== undefined && status >= 500) ||
+		isOverloadedError(error) ||
+		SERVER_ERROR_NAMES.includes(error?.name) ||
+		isNetworkError(error)
+	) {
+		return "server"
+	}
+	return "unknown"
+}
+
+export function getApiErrorKind(error: any): ApiErrorKind {
+	return error instanceof ApiStreamError ? error.kind : classifyApiError(error)
+}
+
+// openai reports rate limit resets as durations like "1s", "6m0s" or "20ms"
+function parseResetDuration(value: string): number | undefined {
+	const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1_000, ms: 1 }
+	const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)]
+	if (parts.length === 0) {
+		return undefined
+	}
+	return parts.reduce((total, [, amount, unit]) => total + parseFloat(amount) * units[unit], 0)
+}
+
+/**
+ * How long the provider asked us to wait before retrying, from the retry-after and x-ratelimit-* response headers.
+ */
+export function getRetryAfterDelay(error: any, now: number = Date.now()): number | undefined {
+	if (error instanceof ApiStreamError) {
+		return error.retryAfter
+	}
+	const retryAfterMs = getErrorHeader(error, "retry-after-ms")
+	if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+		return Number(retryAfterMs)
+	}
+	const retryAfter = getErrorHeader(error, "retry-after")
+	if (retryAfter) {
+		// either a number of seconds or an HTTP date
+		const delay = isNaN(Number(retryAfter)) ? Date.parse(retryAfter) - now : Number(retryAfter) * 1_000
+		if (!isNaN(delay)) {
+			return Math.max(0, delay)
+		}
+	}
+	// only the limits that are used up matter
+	const resets = ["requests", "tokens"]
+		.filter((limit) => getErrorHeader(error, `x-ratelimit-remaining-${limit}`) === "0")
+		.map((limit) => parseResetDuration(getErrorHeader(error, `x-ratelimit-reset-${limit}`) ?? ""))
+		.filter((delay): delay is number => delay !== undefined)
+	return resets.length > 0 ? Math.max(...resets) : undefined
+}
+
+export function toApiErrorChunk(error: any, kind: ApiErrorKind = getApiErrorKind(error)): ApiStreamErrorChunk {
+	return {
+		type: "error",
+		kind,
+		message: getApiErrorMessage(error),
+		status: getErrorStatus(error),
+		retryAfter: getRetryAfterDelay(error),
+	}
+}
+
+/**
+ * Turns errors thrown while streaming a response into a final error chunk.
+ */
+export async function* catchApiErrors(stream: ApiStream): ApiStream {
+	try {
+		yield* stream
+	} catch (error) {
+		yield toApiErrorChunk(error)
+	}
+}
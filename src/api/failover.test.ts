@@ -0,0 +1,212 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import OpenAI from "openai"
+import "should"
+import { ApiHandler, ApiToolDefinition } from "."
+import { nativeToolCallsInstructions } from "../shared/api"
+import { FailoverApiHandler, shouldFailover } from "./failover"
+import { ApiStream, ApiStreamChunk } from "./transform/stream"
+
+// errors as the SDKs throw them for error responses, with the body each provider responds with
+const overloaded = () =>
+	Anthropic.APIError.generate(
+		529,
+		{ type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+		undefined,
+		{},
+	)
+const openAiError = (status: number, message: string) =>
+	OpenAI.APIError.generate(status, { error: { message, type: "invalid_request_error", code: null } }, undefined, {})
+
+function fakeHandler(
+	id: string,
+	respond: () => ApiStream,
+): ApiHandler & { calls: number; requests: Parameters<ApiHandler["createMessage"]>[] } {
+	const handler = {
+		calls: 0,
+		requests: [] as Parameters<ApiHandler["createMessage"]>[],
+		createMessage: (...request: Parameters<ApiHandler["createMessage"]>) => {
+			handler.calls++
+			handler.requests.push(request)
+			return respond()
+		},
+		getModel: () => ({ id, info: { supportsPromptCache: false } }),
+	}
+	return handler
+}
+
+async function* reply(text: string): ApiStream {
+	yield { type: "text", text }
+}
+
+async function* failWith(error: Error): ApiStream {
+	throw error
+}
+
+async function collect(stream: ApiStream): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("FailoverApiHandler", () => {
+	it("should only fail over errors of the provider", () => {
+		shouldFailover("auth").should.be.true()
+		shouldFailover("rate_limit").should.be.true()
+		shouldFailover("server").should.be.true()
+		shouldFailover("context_overflow").should.be.false()
+		shouldFailover("unknown").should.be.false()
+	})
+
+	it("should switch to the next provider and report the failure", async () => {
+		const primary = fakeHandler("claude", () => failWith(overloaded()))
+		const fallback = fakeHandler("llama", () => reply("Hello"))
+		const handler = new FailoverApiHandler([
+			{ apiProvider: "anthropic", handler: primary, nativeToolCalls: false },
+			{ apiProvider: "ollama", handler: fallback, nativeToolCalls: false },
+		])
+		const chunks = await collect(handler.createMessage("system", []))
+		chunks.should.deepEqual([
+			{
+				type: "provider",
+				apiProvider: "ollama",
+				modelId: "llama",
+				failures: [{ apiProvider: "anthropic", modelId: "claude", error: "Overloaded" }],
+			},
+			{ type: "text", text: "Hello" },
+		])
+		handler.getModel().id.should.equal("llama")
+
+		// the failed provider is tried last while it cools down
+		await collect(handler.createMessage("system", []))
+		primary.calls.should.equal(1)
+		fallback.calls.should.equal(2)
+	})
+
+	it("should fail over errors that come after metadata of the request", async () => {
+		async function* failAfterMetadata(): ApiStream {
+			yield { type: "cache_breakpoints", breakpoints: [] }
+			yield { type: "usage", inputTokens: 1000, outputTokens: 0 }
+			throw new OpenAI.APIConnectionTimeoutError()
+		}
+		async function* replyAfterMetadata(): ApiStream {
+			yield { type: "cache_breakpoints", breakpoints: [] }
+			yield* reply("Hello")
+		}
+		const handler = new FailoverApiHandler([
+			{ apiProvider: "openai", handler: fakeHandler("gpt-4o", failAfterMetadata), nativeToolCalls: false },
+			{
+				apiProvider: "openrouter",
+				handler: fakeHandler("openai/gpt-4o", replyAfterMetadata),
+				nativeToolCalls: false,
+			},
+		])
+		const chunks = await collect(handler.createMessage("system", []))
+		chunks.map((chunk) => chunk.type).should.deepEqual(["provider", "cache_breakpoints", "text"])
+		handler.getProvider().should.equal("openrouter")
+	})
+
+	it("should pass on reasoning progress while still failing over later errors", async () => {
+		async function* failWhileReasoning(): ApiStream {
+			yield { type: "reasoning_progress", startedAt: 1 }
+			throw new OpenAI.APIConnectionTimeoutError()
+		}
+		const handler = new FailoverApiHandler([
+			{ apiProvider: "openai-native", handler: fakeHandler("o1", failWhileReasoning), nativeToolCalls: false },
+			{
+				apiProvider: "openrouter",
+				handler: fakeHandler("openai/o1", () => reply("Hello")),
+				nativeToolCalls: false,
+			},
+		])
+		const chunks = await collect(handler.createMessage("system", []))
+		chunks.map((chunk) => chunk.type).should.deepEqual(["reasoning_progress", "provider", "text"])
+	})
+
+	it("should not fail over errors caused by the request", async () => {
+		const fallback = fakeHandler("llama", () => reply("Hello"))
+		const handler = new FailoverApiHandler([
+			{
+				apiProvider: "openai",
+				handler: fakeHandler("gpt-4o", () => failWith(openAiError(400, "Invalid value for 'model'"))),
+				nativeToolCalls: false,
+			},
+			{ apiProvider: "ollama", handler: fallback, nativeToolCalls: false },
+		])
+		const chunks = await collect(handler.createMessage("system", []))
+		chunks.should.deepEqual([
+			{
+				type: "error",
+				kind: "unknown",
+				message: "Invalid value for 'model'",
+				status: 400,
+				retryAfter: undefined,
+			},
+		])
+		fallback.calls.should.equal(0)
+	})
+
+	it("should pass on the last error when every provider fails", async () => {
+		const handler = new FailoverApiHandler([
+			{
+				apiProvider: "anthropic",
+				handler: fakeHandler("claude", () =>
+					failWith(
+						Anthropic.APIError.generate(
+							401,
+							{ type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } },
+							undefined,
+							{},
+						),
+					),
+				),
+				nativeToolCalls: false,
+			},
+			{
+				apiProvider: "openai",
+				handler: fakeHandler("gpt-4o", () => failWith(new OpenAI.APIConnectionTimeoutError())),
+				nativeToolCalls: false,
+			},
+		])
+		const chunks = await collect(handler.createMessage("system", []))
+		chunks.should.deepEqual([
+			{ type: "error", kind: "server", message: "Request timed out.", status: undefined, retryAfter: undefined },
+		])
+	})
+
+	it("should send tools only to providers with native tool calls", async () => {
+		const tools: ApiToolDefinition[] = [
+			{ name: "read_file", description: "Read a file", parameters: { type: "object", properties: {} } },
+		]
+		const messages: Anthropic.Messages.MessageParam[] = [
+			{ role: "user", content: "Read the readme" },
+			{
+				role: "assistant",
+				content: [{ type: "tool_use", id: "1", name: "read_file", input: { path: "README.md" } }],
+			},
+			{ role: "user", content: [{ type: "tool_result", tool_use_id: "1", content: "# Cline" }] },
+		]
+		const primary = fakeHandler("claude", () => failWith(overloaded()))
+		const fallback = fakeHandler("llama", () => reply("Hello"))
+		const handler = new FailoverApiHandler([
+			{ apiProvider: "anthropic", handler: primary, nativeToolCalls: true },
+			{ apiProvider: "ollama", handler: fallback, nativeToolCalls: false },
+		])
+		await collect(handler.createMessage(`system${nativeToolCallsInstructions}`, messages, tools))
+
+		primary.requests[0].should.deepEqual([`system${nativeToolCallsInstructions}`, messages, tools])
+		fallback.requests[0].should.deepEqual([
+			"system",
+			[
+				{ role: "user", content: "Read the readme" },
+				{
+					role: "assistant",
+					content: [{ type: "text", text: "<read_file>\n<path>\nREADME.md\n</path>\n</read_file>" }],
+				},
+				{ role: "user", content: [{ type: "text", text: "[read_file Result]\n\n# Cline" }] },
+			],
+		])
+	})
+})
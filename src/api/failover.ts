@@ -0,0 +1,108 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { ApiHandler, ApiToolDefinition } from "."
+import { ApiProvider, ModelInfo, nativeToolCallsInstructions } from "../shared/api"
+import { ClineApiProviderFailure } from "../shared/ExtensionMessage"
+import { ApiErrorKind, catchApiErrors } from "./errors"
+import { ApiStream, ApiStreamChunk, isMetadataChunk } from "./transform/stream"
+import { convertToolBlocksToText } from "./transform/xml-tool-format"
+
+// how long a provider that failed is skipped before the chain tries it first again
+const FAILED_PROVIDER_COOLDOWN_MS = 60_000
+
+export interface FailoverEntry {
+	apiProvider: ApiProvider
+	handler: ApiHandler
+	nativeToolCalls: boolean // whether the provider is sent tools as function definitions when they are passed
+}
+
+/**
+ * Whether an error means the provider can't serve requests right now (bad credentials, rate limits, outages), so another provider should be tried.
+ * Errors about the request itself (e.g. an invalid message) would fail on every provider and are not failed over.
+ */
+export function shouldFailover(kind: ApiErrorKind): boolean {
+	return kind === "auth" || kind === "quota" || kind === "rate_limit" || kind === "server"
+}
+
+/**
+ * Tries an ordered chain of providers, moving on to the next one when a provider fails before streaming any of the response.
+ * Providers that failed are tried last until their cooldown passes, so an outage doesn't slow down every request of a task.
+ * Errors after the first chunk are passed on as is, since the response can't be restarted on another provider at that point.
+ */
+export class FailoverApiHandler implements ApiHandler {
+	private entries: FailoverEntry[]
+	private failedAt = new Map<number, number>()
+	private current = 0
+
+	constructor(entries: FailoverEntry[]) {
+		this.entries = entries
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		const now = Date.now()
+		const isCoolingDown = (index: number) =>
+			now - (this.failedAt.get(index) ?? -Infinity) < FAILED_PROVIDER_COOLDOWN_MS
+		const indices = this.entries.map((_, index) => index)
+		const order = [...indices.filter((i) => !isCoolingDown(i)), ...indices.filter(isCoolingDown)]
+
+		const failures: ClineApiProviderFailure[] = []
+		for (const [attempt, index] of order.entries()) {
+			const { apiProvider, handler, nativeToolCalls } = this.entries[index]
+			// a provider without native tool calls gets the request in the XML tool use format instead
+			const iterator = catchApiErrors(
+				tools && !nativeToolCalls
+					? handler.createMessage(
+							systemPrompt.replace(nativeToolCallsInstructions, ""),
+							convertToolBlocksToText(messages),
+						)
+					: handler.createMessage(systemPrompt, messages, tools),
+			)
+			// metadata like the cache breakpoints can come before the first chunk of the response, and is only passed on once the provider serves it
+			// except for reasoning progress, which is shown while the model reasons
+			const metadata: ApiStreamChunk[] = []
+			let firstChunk = await iterator.next()
+			while (!firstChunk.done && isMetadataChunk(firstChunk.value)) {
+				if (firstChunk.value.type === "reasoning_progress") {
+					yield firstChunk.value
+				} else {
+					metadata.push(firstChunk.value)
+				}
+				firstChunk = await iterator.next()
+			}
+			if (!firstChunk.done && firstChunk.value.type === "error") {
+				const error = firstChunk.value
+				if (attempt === order.length - 1 || !shouldFailover(error.kind)) {
+					yield error
+					return
+				}
+				this.failedAt.set(index, Date.now())
+				failures.push({ apiProvider, modelId: handler.getModel().id, error: error.message })
+				continue
+			}
+
+			this.failedAt.delete(index)
+			this.current = index
+			yield { type: "provider", apiProvider, modelId: handler.getModel().id, failures }
+			for (const chunk of metadata) {
+				yield chunk
+			}
+			if (!firstChunk.done) {
+				yield firstChunk.value
+				yield* iterator
+			}
+			return
+		}
+	}
+
+	// the provider that served the latest request, so costs are calculated with the right model's prices
+	getModel(): { id: string; info: ModelInfo } {
+		return this.entries[this.current].handler.getModel()
+	}
+
+	getProvider(): ApiProvider {
+		return this.entries[this.current].apiProvider
+	}
+}
@@ -1,5 +1,5 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import { ApiConfiguration, ModelInfo } from "../shared/api"
+import { ApiConfiguration, ModelInfo, usesNativeToolCalls } from "../shared/api"
 import { AnthropicHandler } from "./providers/anthropic"
 import { AwsBedrockHandler } from "./providers/bedrock"
 import { OpenRouterHandler } from "./providers/openrouter"
@@ -7,17 +7,75 @@ import { VertexHandler } from "./providers/vertex"
 import { OpenAiHandler } from "./providers/openai"
 import { OllamaHandler } from "./providers/ollama"
 import { LmStudioHandler } from "./providers/lmstudio"
+import { LlamaCppHandler } from "./providers/llamacpp"
 import { GeminiHandler } from "./providers/gemini"
 import { OpenAiNativeHandler } from "./providers/openai-native"
+import { DeepSeekHandler } from "./providers/deepseek"
+import { ScriptedHandler } from "./providers/scripted"
+import { CassetteApiHandler, CassetteSession } from "./cassette"
+import { FailoverApiHandler, FailoverEntry } from "./failover"
 import { ApiStream } from "./transform/stream"
 
 export interface ApiHandler {
-	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream
+	// tools are only passed in native tool calling mode, handlers that don't support it ignore them
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream
 	getModel(): { id: string; info: ModelInfo }
 }
 
-export function buildApiHandler(configuration: ApiConfiguration): ApiHandler {
-	const { apiProvider, ...options } = configuration
+export interface ApiToolDefinition {
+	name: string
+	description: string
+	parameters: Record<string, unknown> // JSON schema of the arguments
+}
+
+// a cassette records the requests of the configured provider, or replays a recording in its place
+export function buildApiHandler(configuration: ApiConfiguration, cassette?: CassetteSession): ApiHandler {
+	if (cassette?.mode === "replay") {
+		return new CassetteApiHandler(cassette)
+	}
+	const handler = buildFailoverHandler(configuration)
+	return cassette ? new CassetteApiHandler(cassette, handler) : handler
+}
+
+function buildFailoverHandler(configuration: ApiConfiguration): ApiHandler {
+	const handler = buildProviderHandler(configuration)
+	if (!configuration.fallbackApiConfigurations?.length) {
+		return handler
+	}
+	const entries: FailoverEntry[] = [
+		{
+			apiProvider: configuration.apiProvider ?? "anthropic",
+			handler,
+			nativeToolCalls: usesNativeToolCalls(configuration),
+		},
+	]
+	for (const fallback of configuration.fallbackApiConfigurations) {
+		try {
+			// the model overrides are shared, since they describe the models rather than a provider configuration
+			const fallbackHandler = buildProviderHandler({
+				...fallback,
+				modelInfoOverrides: configuration.modelInfoOverrides,
+			})
+			entries.push({
+				apiProvider: fallback.apiProvider ?? "anthropic",
+				handler: fallbackHandler,
+				// tool calling is a setting of the task rather than of a provider configuration
+				nativeToolCalls: usesNativeToolCalls({ ...fallback, nativeToolCalls: configuration.nativeToolCalls }),
+			})
+		} catch (error) {
+			// a misconfigured fallback shouldn't prevent using the primary provider
+			console.error("Failed to initialize fallback API provider:", error)
+		}
+	}
+	return entries.length > 1 ? new FailoverApiHandler(entries) : handler
+}
+
+function buildProviderHandler(configuration: ApiConfiguration): ApiHandler {
+	const { apiProvider, fallbackApiConfigurations, ...options } = configuration
 	try {
 		// Validate required credentials
 		switch (apiProvider) {
@@ -50,6 +108,11 @@ export function buildApiHandler(configuration: ApiConfiguration): ApiHandler {
 				return new OllamaHandler(options)
 			case "lmstudio":
 				return new LmStudioHandler(options)
+			case "llamacpp":
+				if (!options.llamaCppBaseUrl) {
+					throw new Error("llama.cpp server base URL is required")
+				}
+				return new LlamaCppHandler(options)
 			case "gemini":
 				if (!options.geminiApiKey) {
 					throw new Error("Gemini API key is required")
@@ -60,6 +123,16 @@ export function buildApiHandler(configuration: ApiConfiguration): ApiHandler {
 					throw new Error("OpenAI Native API key is required")
 				}
 				return new OpenAiNativeHandler(options)
+			case "deepseek":
+				if (!options.deepSeekApiKey) {
+					throw new Error("DeepSeek API key is required")
+				}
+				return new DeepSeekHandler(options)
+			case "scripted":
+				if (!options.scriptedResponsesPath) {
+					throw new Error("Script path is required")
+				}
+				return new ScriptedHandler(options)
 			default:
 				if (!options.apiKey) {
 					throw new Error("API key is required")
@@ -8,6 +8,8 @@ import {
 	ModelInfo,
 } from "../../shared/api"
 import { ApiHandler } from "../index"
+import { catchApiErrors } from "../errors"
+import { addCacheControl, getCacheBreakpointCoverage, placeCacheBreakpoints } from "../transform/cache-breakpoints"
 import { ApiStream } from "../transform/stream"
 
 export class AnthropicHandler implements ApiHandler {
@@ -22,7 +24,11 @@ export class AnthropicHandler implements ApiHandler {
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages))
+	}
+
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
 		let stream: AnthropicStream<Anthropic.Beta.PromptCaching.Messages.RawPromptCachingBetaMessageStreamEvent>
 		const modelId = this.getModel().id
 		switch (modelId) {
@@ -31,43 +37,24 @@ export class AnthropicHandler implements ApiHandler {
 			case "claude-3-5-haiku-20241022":
 			case "claude-3-opus-20240229":
 			case "claude-3-haiku-20240307": {
-				/*
-				The latest message will be the new user message, one before will be the assistant message from a previous request, and the user message before that will be a previously cached user message. So we need to mark the latest user message as ephemeral to cache it for the next request, and mark the second to last user message as ephemeral to let the server know the last message to retrieve from the cache for the current request..
-				*/
-				const userMsgIndices = messages.reduce(
-					(acc, msg, index) => (msg.role === "user" ? [...acc, index] : acc),
-					[] as number[],
-				)
-				const lastUserMsgIndex = userMsgIndices[userMsgIndices.length - 1] ?? -1
-				const secondLastMsgUserIndex = userMsgIndices[userMsgIndices.length - 2] ?? -1
+				const placement = placeCacheBreakpoints(messages, this.options.cacheBreakpointPolicy)
+				const breakpointIndices = new Set(placement.messages.map((breakpoint) => breakpoint.index))
 				stream = await this.client.beta.promptCaching.messages.create(
 					{
 						model: modelId,
 						max_tokens: this.getModel().info.maxTokens || 8192,
 						temperature: 0,
-						system: [{ text: systemPrompt, type: "text", cache_control: { type: "ephemeral" } }], // setting cache breakpoint for system prompt so new tasks can reuse it
-						messages: messages.map((message, index) => {
-							if (index === lastUserMsgIndex || index === secondLastMsgUserIndex) {
-								return {
-									...message,
-									content:
-										typeof message.content === "string"
-											? [
-													{
-														type: "text",
-														text: message.content,
-														cache_control: { type: "ephemeral" },
-													},
-												]
-											: message.content.map((content, contentIndex) =>
-													contentIndex === message.content.length - 1
-														? { ...content, cache_control: { type: "ephemeral" } }
-														: content,
-												),
-								}
-							}
-							return message
-						}),
+						system: [
+							{
+								text: systemPrompt,
+								type: "text",
+								// setting cache breakpoint for system prompt so new tasks can reuse it
+								cache_control: placement.systemPrompt ? { type: "ephemeral" } : undefined,
+							},
+						],
+						messages: messages.map((message, index) =>
+							breakpointIndices.has(index) ? addCacheControl(message) : message,
+						),
 						// tools, // cache breakpoints go from tools > system > messages, and since tools dont change, we can just set the breakpoint at the end of system (this avoids having to set a breakpoint at the end of tools which by itself does not meet min requirements for haiku caching)
 						// tool_choice: { type: "auto" },
 						// tools: tools,
@@ -90,6 +77,11 @@ export class AnthropicHandler implements ApiHandler {
 						}
 					})(),
 				)
+				// only reported once the request was accepted, and as metadata it doesn't keep an error later in the stream from being retried
+				yield {
+					type: "cache_breakpoints",
+					breakpoints: getCacheBreakpointCoverage(systemPrompt, messages, placement),
+				}
 				break
 			}
 			default: {
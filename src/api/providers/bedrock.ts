@@ -2,6 +2,7 @@ import AnthropicBedrock from "@anthropic-ai/bedrock-sdk"
 import { Anthropic } from "@anthropic-ai/sdk"
 import { ApiHandler } from "../"
 import { ApiHandlerOptions, bedrockDefaultModelId, BedrockModelId, bedrockModels, ModelInfo } from "../../shared/api"
+import { catchApiErrors } from "../errors"
 import { ApiStream } from "../transform/stream"
 
 // https://docs.anthropic.com/en/api/claude-on-amazon-bedrock
@@ -24,7 +25,11 @@ export class AwsBedrockHandler implements ApiHandler {
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages))
+	}
+
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
 		// cross region inference requires prefixing the model id with the region
 		let modelId: string
 		if (this.options.awsUseCrossRegionInference) {
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import * as http from "http"
+import { AddressInfo } from "net"
+import { ApiStreamChunk } from "../transform/stream"
+import { DeepSeekHandler } from "./deepseek"
+
+// stands in for the DeepSeek chat completions endpoint, streaming a short answer and its usage with the disk cache fields
+function startDeepSeekStandIn(requests: any[], usage: object): Promise<http.Server> {
+	const server = http.createServer((req, res) => {
+		let data = ""
+		req.on("data", (chunk) => (data += chunk))
+		req.on("end", () => {
+			requests.push(JSON.parse(data))
+			res.setHeader("Content-Type", "text/event-stream")
+			const chunks = [
+				{ id: "1", object: "chat.completion.chunk", choices: [{ index: 0, delta: { content: "Hello" } }] },
+				{ id: "1", object: "chat.completion.chunk", choices: [], usage },
+			]
+			res.end(chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n")
+		})
+	})
+	return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)))
+}
+
+async function collect(stream: AsyncIterable<ApiStreamChunk>): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("DeepSeekHandler", () => {
+	let server: http.Server | undefined
+	let requests: any[]
+
+	beforeEach(() => {
+		requests = []
+	})
+
+	afterEach(() => {
+		server?.close()
+	})
+
+	async function streamWithUsage(usage: object): Promise<ApiStreamChunk[]> {
+		server = await startDeepSeekStandIn(requests, usage)
+		const handler = new DeepSeekHandler({
+			deepSeekApiKey: "test-key",
+			deepSeekBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		})
+		return collect(handler.createMessage("You are Cline", [{ role: "user", content: "Hi" }]))
+	}
+
+	it("should report cache hits as reads and cache misses as writes", async () => {
+		const chunks = await streamWithUsage({
+			prompt_tokens: 1000,
+			completion_tokens: 20,
+			total_tokens: 1020,
+			prompt_cache_hit_tokens: 800,
+			prompt_cache_miss_tokens: 200,
+		})
+
+		requests[0].should.have.properties({ model: "deepseek-chat", stream_options: { include_usage: true } })
+		requests[0].messages[0].should.deepEqual({ role: "system", content: "You are Cline" })
+		chunks.should.deepEqual([
+			{ type: "text", text: "Hello" },
+			{ type: "usage", inputTokens: 0, outputTokens: 20, cacheWriteTokens: 200, cacheReadTokens: 800 },
+		])
+	})
+
+	it("should count the whole prompt as input when the cache fields are missing", async () => {
+		const chunks = await streamWithUsage({ prompt_tokens: 1000, completion_tokens: 20, total_tokens: 1020 })
+
+		chunks[1].should.deepEqual({
+			type: "usage",
+			inputTokens: 1000,
+			outputTokens: 20,
+			cacheWriteTokens: undefined,
+			cacheReadTokens: undefined,
+		})
+	})
+})
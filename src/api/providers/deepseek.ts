@@ -0,0 +1,83 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import OpenAI from "openai"
+import { ApiHandler } from "../"
+import { ApiHandlerOptions, deepSeekDefaultModelId, DeepSeekModelId, deepSeekModels, ModelInfo } from "../../shared/api"
+import { separateEnvironmentDetails, structurePromptForCaching } from "../../utils/prompt-cache"
+import { catchApiErrors } from "../errors"
+import { convertToOpenAiMessages } from "../transform/openai-format"
+import { ApiStream } from "../transform/stream"
+
+// DeepSeek reports its disk cache usage alongside the standard OpenAI usage fields
+interface DeepSeekUsage extends OpenAI.CompletionUsage {
+	prompt_cache_hit_tokens?: number
+	prompt_cache_miss_tokens?: number
+}
+
+export class DeepSeekHandler implements ApiHandler {
+	private options: ApiHandlerOptions
+	private client: OpenAI
+
+	constructor(options: ApiHandlerOptions) {
+		this.options = options
+		this.client = new OpenAI({
+			baseURL: this.options.deepSeekBaseUrl || "https://api.deepseek.com",
+			apiKey: this.options.deepSeekApiKey,
+		})
+	}
+
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages))
+	}
+
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		// caching is automatic for any repeated prefix, so the system prompt goes first
+		const { staticMessages, variableMessages } = this.options.cacheAwareEnvironmentDetails
+			? separateEnvironmentDetails(messages)
+			: { staticMessages: [], variableMessages: messages }
+		const stream = await this.client.chat.completions.create({
+			model: this.getModel().id,
+			max_tokens: this.getModel().info.maxTokens,
+			temperature: 0,
+			messages: structurePromptForCaching(
+				systemPrompt,
+				convertToOpenAiMessages(staticMessages),
+				convertToOpenAiMessages(variableMessages),
+			),
+			stream: true,
+			stream_options: { include_usage: true },
+		})
+
+		for await (const chunk of stream) {
+			const delta = chunk.choices[0]?.delta
+			if (delta?.content) {
+				yield {
+					type: "text",
+					text: delta.content,
+				}
+			}
+
+			if (chunk.usage) {
+				// every prompt token is either a cache hit or a cache miss, and misses are written to the cache for the next request
+				const usage = chunk.usage as DeepSeekUsage
+				const cacheReadTokens = usage.prompt_cache_hit_tokens || 0
+				const cacheWriteTokens = usage.prompt_cache_miss_tokens || 0
+				yield {
+					type: "usage",
+					inputTokens: Math.max((usage.prompt_tokens || 0) - cacheReadTokens - cacheWriteTokens, 0),
+					outputTokens: usage.completion_tokens || 0,
+					cacheWriteTokens: cacheWriteTokens || undefined,
+					cacheReadTokens: cacheReadTokens || undefined,
+				}
+			}
+		}
+	}
+
+	getModel(): { id: DeepSeekModelId; info: ModelInfo } {
+		const modelId = this.options.apiModelId
+		if (modelId && modelId in deepSeekModels) {
+			const id = modelId as DeepSeekModelId
+			return { id, info: deepSeekModels[id] }
+		}
+		return { id: deepSeekDefaultModelId, info: deepSeekModels[deepSeekDefaultModelId] }
+	}
+}
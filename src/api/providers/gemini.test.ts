@@ -0,0 +1,249 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import * as http from "http"
+import { AddressInfo } from "net"
+import { ApiStreamChunk } from "../transform/stream"
+import { GeminiHandler } from "./gemini"
+
+interface RecordedRequest {
+	method: string
+	url: string
+	body: any
+}
+
+// stands in for the Gemini REST endpoint, reporting every prompt as 50k tokens with whatever was cached read from the cache
+// unless other streamed responses are given
+function startGeminiStandIn(requests: RecordedRequest[], streamedResponses?: object[]): Promise<http.Server> {
+	let cacheCount = 0
+	const server = http.createServer((req, res) => {
+		let data = ""
+		req.on("data", (chunk) => (data += chunk))
+		req.on("end", () => {
+			const body = data ? JSON.parse(data) : undefined
+			requests.push({ method: req.method!, url: req.url!, body })
+			res.setHeader("Content-Type", "application/json")
+			const expireTime = new Date(Date.now() + 5 * 60 * 1000).toISOString()
+			if (req.method === "POST" && req.url!.startsWith("/v1beta/cachedContents")) {
+				res.end(
+					JSON.stringify({
+						name: `cachedContents/${++cacheCount}`,
+						model: body.model,
+						expireTime,
+						usageMetadata: { totalTokenCount: 40_000 },
+					}),
+				)
+			} else if (req.method === "PATCH") {
+				res.end(JSON.stringify({ expireTime }))
+			} else if (req.method === "DELETE") {
+				res.end("{}")
+			} else {
+				res.setHeader("Content-Type", "text/event-stream")
+				const response = {
+					candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, index: 0 }],
+					usageMetadata: {
+						promptTokenCount: 50_000,
+						candidatesTokenCount: 10,
+						cachedContentTokenCount: body.cachedContent ? 40_000 : undefined,
+					},
+				}
+				res.end(
+					(streamedResponses ?? [response])
+						.map((response) => `data: ${JSON.stringify(response)}\n\n`)
+						.join(""),
+				)
+			}
+		})
+	})
+	return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)))
+}
+
+async function collect(stream: AsyncIterable<ApiStreamChunk>): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("GeminiHandler context caching", () => {
+	let server: http.Server
+	let requests: RecordedRequest[]
+	let handler: GeminiHandler
+
+	// ~40k estimated tokens, enough to be cached
+	const longHistory: Anthropic.Messages.MessageParam[] = [
+		{ role: "user", content: "a".repeat(80_000) },
+		{ role: "assistant", content: "b".repeat(80_000) },
+		{ role: "user", content: "What next?" },
+	]
+
+	beforeEach(async () => {
+		requests = []
+		server = await startGeminiStandIn(requests)
+		handler = new GeminiHandler({
+			apiModelId: "gemini-1.5-flash-002",
+			geminiApiKey: "test-key",
+			geminiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		})
+	})
+
+	afterEach(() => {
+		server.close()
+	})
+
+	const requestsTo = (method: string, path: string) =>
+		requests.filter((r) => r.method === method && r.url.includes(path))
+
+	it("should not create a cache for short prompts", async () => {
+		const chunks = await collect(handler.createMessage("You are Cline", [{ role: "user", content: "Hi" }]))
+		requestsTo("POST", "cachedContents").should.have.length(0)
+		const [generate] = requestsTo("POST", "streamGenerateContent")
+		generate.body.systemInstruction.parts[0].text.should.equal("You are Cline")
+		generate.body.should.not.have.property("cachedContent")
+		chunks.should.containEql({
+			type: "usage",
+			inputTokens: 50_000,
+			outputTokens: 10,
+			cacheWriteTokens: undefined,
+			cacheReadTokens: undefined,
+		})
+	})
+
+	it("should cache the system prompt and stable history and only send the rest", async () => {
+		const chunks = await collect(handler.createMessage("You are Cline", longHistory))
+		const [create] = requestsTo("POST", "cachedContents")
+		create.body.model.should.equal("models/gemini-1.5-flash-002")
+		create.body.contents.should.have.length(2)
+		create.body.ttl.should.equal("300s")
+		const [generate] = requestsTo("POST", "streamGenerateContent")
+		generate.body.cachedContent.should.equal("cachedContents/1")
+		generate.body.should.not.have.property("systemInstruction")
+		generate.body.contents.should.have.length(1)
+		chunks.should.containEql({
+			type: "usage",
+			inputTokens: 10_000,
+			outputTokens: 10,
+			cacheWriteTokens: 40_000,
+			cacheReadTokens: 40_000,
+		})
+	})
+
+	it("should reuse the cache while the history only grows", async () => {
+		await collect(handler.createMessage("You are Cline", longHistory))
+		const chunks = await collect(
+			handler.createMessage("You are Cline", [
+				...longHistory,
+				{ role: "assistant", content: "Done" },
+				{ role: "user", content: "Thanks" },
+			]),
+		)
+		requestsTo("POST", "cachedContents").should.have.length(1)
+		const generate = requestsTo("POST", "streamGenerateContent")[1]
+		generate.body.cachedContent.should.equal("cachedContents/1")
+		generate.body.contents.should.have.length(3)
+		chunks.should.containEql({
+			type: "usage",
+			inputTokens: 10_000,
+			outputTokens: 10,
+			cacheWriteTokens: undefined,
+			cacheReadTokens: 40_000,
+		})
+	})
+
+	it("should replace the cache when the cached history changes", async () => {
+		await collect(handler.createMessage("You are Cline", longHistory))
+		await collect(
+			handler.createMessage("You are Cline", [
+				{ role: "user", content: "c".repeat(160_000) },
+				...longHistory.slice(1),
+			]),
+		)
+		requestsTo("DELETE", "cachedContents/1").should.have.length(1)
+		requestsTo("POST", "cachedContents").should.have.length(2)
+		requestsTo("POST", "streamGenerateContent")[1].body.cachedContent.should.equal("cachedContents/2")
+	})
+})
+
+describe("GeminiHandler streaming", () => {
+	let server: http.Server | undefined
+
+	afterEach(() => {
+		server?.close()
+	})
+
+	async function streamFrom(streamedResponses: object[]): Promise<ApiStreamChunk[]> {
+		server = await startGeminiStandIn([], streamedResponses)
+		const handler = new GeminiHandler({
+			apiModelId: "gemini-1.5-flash-002",
+			geminiApiKey: "test-key",
+			geminiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		})
+		return collect(handler.createMessage("You are Cline", [{ role: "user", content: "Hi" }]))
+	}
+
+	it("should report the usage of the last streamed chunk", async () => {
+		const chunks = await streamFrom([
+			{
+				candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] }, index: 0 }],
+				usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 1 },
+			},
+			{
+				candidates: [{ content: { role: "model", parts: [{ text: "lo" }] }, finishReason: "STOP", index: 0 }],
+				usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 2 },
+			},
+		])
+		chunks.should.deepEqual([
+			{ type: "text", text: "Hel" },
+			{ type: "text", text: "lo" },
+			{
+				type: "usage",
+				inputTokens: 100,
+				outputTokens: 2,
+				cacheWriteTokens: undefined,
+				cacheReadTokens: undefined,
+			},
+		])
+	})
+
+	it("should end with a content filter error when the response is blocked", async () => {
+		const chunks = await streamFrom([
+			{
+				candidates: [{ content: { role: "model", parts: [{ text: "Sure" }] }, index: 0 }],
+			},
+			{
+				candidates: [
+					{
+						finishReason: "SAFETY",
+						safetyRatings: [
+							{ category: "HARM_CATEGORY_DANGEROUS_CONTENT", probability: "HIGH" },
+							{ category: "HARM_CATEGORY_HARASSMENT", probability: "NEGLIGIBLE" },
+						],
+						index: 0,
+					},
+				],
+				usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 10 },
+			},
+		])
+		chunks[0].should.deepEqual({ type: "text", text: "Sure" })
+		chunks[1].should.have.properties({ type: "usage", inputTokens: 1000, outputTokens: 10 })
+		chunks[2].should.have.properties({
+			type: "error",
+			kind: "content_filter",
+			message: "Gemini blocked the response (SAFETY, HARM_CATEGORY_DANGEROUS_CONTENT)",
+		})
+		chunks.should.have.length(3)
+	})
+
+	it("should end with a content filter error when the prompt is blocked", async () => {
+		const chunks = await streamFrom([
+			{
+				promptFeedback: { blockReason: "SAFETY" },
+				usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 0 },
+			},
+		])
+		chunks.should.have.length(2)
+		chunks[0].should.have.properties({ type: "usage", inputTokens: 1000, outputTokens: 0 })
+		chunks[1].should.have.properties({ type: "error", kind: "content_filter" })
+	})
+})
@@ -1,48 +1,233 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import { GoogleGenerativeAI } from "@google/generative-ai"
+import {
+	GenerateContentResponse,
+	GoogleGenerativeAI,
+	HarmProbability,
+	RequestOptions,
+	UsageMetadata,
+} from "@google/generative-ai"
+import { CachedContent, GoogleAICacheManager } from "@google/generative-ai/server"
 import { ApiHandler } from "../"
 import { ApiHandlerOptions, geminiDefaultModelId, GeminiModelId, geminiModels, ModelInfo } from "../../shared/api"
+import { estimateTokens } from "../../utils/prompt-cache-simulator"
+import { catchApiErrors, toApiErrorChunk } from "../errors"
 import { convertAnthropicMessageToGemini } from "../transform/gemini-format"
-import { ApiStream } from "../transform/stream"
+import { ApiStream, ApiStreamUsageChunk } from "../transform/stream"
+
+// Gemini rejects cached contents smaller than this
+const MIN_CACHE_TOKENS = 32_768
+// storage is billed per hour, so caches are kept just long enough to bridge the gaps between requests in a task
+const CACHE_TTL_SECONDS = 5 * 60
+// a cache that expires this soon could disappear before the request that uses it is served
+const CACHE_EXPIRY_MARGIN_MS = 30_000
+// finish reasons of responses stopped by Gemini's safety filters, some are only sent by newer API versions than the SDK knows
+const BLOCKED_FINISH_REASONS = ["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII"]
+
+interface GeminiContextCache {
+	content: CachedContent
+	modelId: string
+	systemPrompt: string
+	messageKeys: string[] // serialized messages stored in the cache, used to check it is still a prefix of the history
+	expiresAt: number
+}
+
+// the prompt or the response can be blocked, the latter possibly after some of it was streamed
+function getBlockedMessage(chunk: GenerateContentResponse): string | undefined {
+	const blockReason = chunk.promptFeedback?.blockReason
+	if (blockReason) {
+		return `Gemini blocked the prompt (${blockReason})`
+	}
+	const candidate = chunk.candidates?.[0]
+	if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+		const categories = candidate.safetyRatings
+			?.filter((rating) => rating.probability === HarmProbability.HIGH)
+			.map((rating) => rating.category)
+		return `Gemini blocked the response (${[candidate.finishReason, ...(categories ?? [])].join(", ")})${
+			candidate.finishMessage ? `: ${candidate.finishMessage}` : ""
+		}`
+	}
+	return undefined
+}
+
+/**
+ * Turns the chunks of a streamed Gemini response into text, a final usage chunk, or an error if the response was blocked.
+ * Shared with Gemini models on Vertex AI, which respond in the same format.
+ */
+export async function* streamGeminiResponse(
+	chunks: AsyncIterable<GenerateContentResponse>,
+	cacheWriteTokens = 0,
+): ApiStream {
+	let usageMetadata: UsageMetadata | undefined
+	// promptTokenCount includes the tokens read from the cache
+	const getUsage = (): ApiStreamUsageChunk => {
+		const cacheReadTokens = usageMetadata?.cachedContentTokenCount ?? 0
+		return {
+			type: "usage",
+			inputTokens: (usageMetadata?.promptTokenCount ?? 0) - cacheReadTokens,
+			outputTokens: usageMetadata?.candidatesTokenCount ?? 0,
+			cacheWriteTokens: cacheWriteTokens || undefined,
+			cacheReadTokens: cacheReadTokens || undefined,
+		}
+	}
+	for await (const chunk of chunks) {
+		// chunks report the usage so far, so the last one has the totals
+		usageMetadata = chunk.usageMetadata ?? usageMetadata
+		// chunk.text() throws on blocked responses, which loses the reason
+		const text = chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("")
+		if (text) {
+			yield {
+				type: "text",
+				text,
+			}
+		}
+		const blockedMessage = getBlockedMessage(chunk)
+		if (blockedMessage) {
+			// blocked prompts and responses are still billed
+			yield getUsage()
+			yield toApiErrorChunk(new Error(blockedMessage), "content_filter")
+			return
+		}
+	}
+	yield getUsage()
+}
 
 export class GeminiHandler implements ApiHandler {
 	private options: ApiHandlerOptions
 	private client: GoogleGenerativeAI
+	private cacheManager: GoogleAICacheManager
+	private requestOptions: RequestOptions
+	private contextCache?: GeminiContextCache
 
 	constructor(options: ApiHandlerOptions) {
 		if (!options.geminiApiKey) {
 			throw new Error("API key is required for Google Gemini")
 		}
 		this.options = options
+		this.requestOptions = { baseUrl: options.geminiBaseUrl || undefined }
 		this.client = new GoogleGenerativeAI(options.geminiApiKey)
+		this.cacheManager = new GoogleAICacheManager(options.geminiApiKey, this.requestOptions)
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
-		const model = this.client.getGenerativeModel({
-			model: this.getModel().id,
-			systemInstruction: systemPrompt,
-		})
-		const result = await model.generateContentStream({
-			contents: messages.map(convertAnthropicMessageToGemini),
-			generationConfig: {
-				// maxOutputTokens: this.getModel().info.maxTokens,
-				temperature: 0,
-			},
-		})
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages))
+	}
 
-		for await (const chunk of result.stream) {
-			yield {
-				type: "text",
-				text: chunk.text(),
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		const { id: modelId, info } = this.getModel()
+		const { cache, cacheWriteTokens } = info.supportsPromptCache
+			? await this.getContextCache(modelId, systemPrompt, messages)
+			: { cache: undefined, cacheWriteTokens: 0 }
+
+		// the cached contents already include the system prompt and the start of the history, so only the rest is sent
+		const model = cache
+			? this.client.getGenerativeModelFromCachedContent(cache.content, {}, this.requestOptions)
+			: this.client.getGenerativeModel({ model: modelId, systemInstruction: systemPrompt }, this.requestOptions)
+		let result: Awaited<ReturnType<typeof model.generateContentStream>>
+		try {
+			result = await model.generateContentStream({
+				contents: messages.slice(cache?.messageKeys.length ?? 0).map(convertAnthropicMessageToGemini),
+				generationConfig: {
+					// maxOutputTokens: this.getModel().info.maxTokens,
+					temperature: 0,
+				},
+			})
+		} catch (error) {
+			// the cache may have been deleted or expired on Gemini's side, so don't reuse it when the request is retried
+			if (cache) {
+				this.contextCache = undefined
 			}
+			throw error
 		}
 
-		const response = await result.response
-		yield {
-			type: "usage",
-			inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
-			outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+		yield* streamGeminiResponse(result.stream, cacheWriteTokens)
+	}
+
+	/**
+	 * Returns a context cache holding the system prompt and as much of the history as is stable, creating or replacing it if needed.
+	 * The latest message is never cached since the next request replaces it with a new one. A valid cache is only replaced once the history sent after it is large enough to be cached by itself, which keeps cache writes infrequent.
+	 */
+	private async getContextCache(
+		modelId: string,
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+	): Promise<{ cache?: GeminiContextCache; cacheWriteTokens: number }> {
+		const messageKeys = messages.map((message) => JSON.stringify(message))
+		const stableCount = messages.length - 1
+		const now = Date.now()
+
+		let current = this.contextCache
+		if (
+			current &&
+			(current.modelId !== modelId ||
+				current.systemPrompt !== systemPrompt ||
+				current.messageKeys.length > stableCount ||
+				current.messageKeys.some((key, i) => key !== messageKeys[i]) ||
+				current.expiresAt - now < CACHE_EXPIRY_MARGIN_MS)
+		) {
+			this.deleteContextCache(current)
+			current = undefined
 		}
+
+		const uncachedTokens = messages
+			.slice(current?.messageKeys.length ?? 0, stableCount)
+			.reduce(
+				(total, message) => total + estimateTokens(message.content),
+				current ? 0 : estimateTokens(systemPrompt),
+			)
+		if (uncachedTokens < MIN_CACHE_TOKENS) {
+			if (current && current.expiresAt - now < (CACHE_TTL_SECONDS * 1000) / 2) {
+				await this.extendContextCache(current)
+			}
+			return { cache: current, cacheWriteTokens: 0 }
+		}
+
+		try {
+			const content: CachedContent & { usageMetadata?: { totalTokenCount?: number } } =
+				await this.cacheManager.create({
+					model: modelId,
+					systemInstruction: systemPrompt,
+					contents: messages.slice(0, stableCount).map(convertAnthropicMessageToGemini),
+					ttlSeconds: CACHE_TTL_SECONDS,
+				})
+			if (current) {
+				this.deleteContextCache(current)
+			}
+			this.contextCache = {
+				content,
+				modelId,
+				systemPrompt,
+				messageKeys: messageKeys.slice(0, stableCount),
+				expiresAt: content.expireTime ? Date.parse(content.expireTime) : now + CACHE_TTL_SECONDS * 1000,
+			}
+			return { cache: this.contextCache, cacheWriteTokens: content.usageMetadata?.totalTokenCount ?? 0 }
+		} catch (error) {
+			// caching is an optimization, so fall back to the previous cache (or none) instead of failing the request
+			console.error("Failed to create Gemini context cache:", error)
+			return { cache: current, cacheWriteTokens: 0 }
+		}
+	}
+
+	private async extendContextCache(cache: GeminiContextCache) {
+		try {
+			const content = await this.cacheManager.update(cache.content.name!, {
+				cachedContent: { ttlSeconds: CACHE_TTL_SECONDS },
+			})
+			cache.expiresAt = content.expireTime
+				? Date.parse(content.expireTime)
+				: Date.now() + CACHE_TTL_SECONDS * 1000
+		} catch (error) {
+			console.error("Failed to extend Gemini context cache:", error)
+		}
+	}
+
+	private deleteContextCache(cache: GeminiContextCache) {
+		if (this.contextCache === cache) {
+			this.contextCache = undefined
+		}
+		// stops storage billing early, the cache expires on its own if this fails
+		this.cacheManager.delete(cache.content.name!).catch((error) => {
+			console.error("Failed to delete Gemini context cache:", error)
+		})
 	}
 
 	getModel(): { id: GeminiModelId; info: ModelInfo } {
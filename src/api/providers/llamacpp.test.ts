@@ -0,0 +1,49 @@
+import * as http from "http"
+import { AddressInfo } from "net"
+import { after, before, describe, it } from "mocha"
+import "should"
+import { fetchLlamaCppModels, parseQuantization } from "./llamacpp"
+
+describe("llama.cpp", () => {
+	let server: http.Server
+	let baseUrl: string
+	let responses: Record<string, unknown> = {}
+
+	before(async () => {
+		server = http.createServer((req, res) => {
+			const body = responses[req.url ?? ""]
+			res.writeHead(body ? 200 : 404, { "Content-Type": "application/json" })
+			res.end(JSON.stringify(body ?? { error: "Not found" }))
+		})
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+	})
+
+	after(() => {
+		server.close()
+	})
+
+	it("should parse the quantization from GGUF file names", () => {
+		parseQuantization("qwen2.5-coder-7b-instruct-q4_k_m.gguf")!.should.equal("Q4_K_M")
+		parseQuantization("Llama-3.2-3B-Instruct-IQ3_XS.gguf")!.should.equal("IQ3_XS")
+		parseQuantization("gemma-2-9b-it-BF16.gguf")!.should.equal("BF16")
+		;(parseQuantization("llama3") === undefined).should.be.true()
+	})
+
+	it("should prefer the context length the server was started with", async () => {
+		const model = { id: "qwen2.5-coder-7b-instruct-q8_0.gguf", meta: { n_ctx_train: 131072 } }
+		responses = {
+			"/v1/models": { data: [model] },
+			"/props": { default_generation_settings: { n_ctx: 16384 }, modalities: { vision: false } },
+		}
+		;(await fetchLlamaCppModels(baseUrl)).should.deepEqual({
+			[model.id]: { contextWindow: 16384, supportsImages: false, quantization: "Q8_0" },
+		})
+
+		// older servers don't have the properties endpoint
+		responses = { "/v1/models": { data: [model] } }
+		;(await fetchLlamaCppModels(baseUrl)).should.deepEqual({
+			[model.id]: { contextWindow: 131072, quantization: "Q8_0" },
+		})
+	})
+})
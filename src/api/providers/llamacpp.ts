@@ -0,0 +1,133 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import axios from "axios"
+import OpenAI from "openai"
+import { ApiHandler, ApiToolDefinition } from "../"
+import { ApiHandlerOptions, ModelInfo, openAiModelInfoSaneDefaults } from "../../shared/api"
+import { getModelInfoWithOverride } from "../../shared/modelInfoOverrides"
+import { catchApiErrors } from "../errors"
+import { accumulateToolCallDeltas, convertToOpenAiMessages, convertToOpenAiTools } from "../transform/openai-format"
+import { ApiStream, ApiStreamToolCallChunk } from "../transform/stream"
+
+// GGUF file names include the quantization type, e.g. qwen2.5-coder-7b-instruct-q4_k_m.gguf
+export function parseQuantization(modelId: string): string | undefined {
+	return modelId.match(/\b(I?Q\d(?:_[A-Z0-9]+)*|BF16|F16|F32)\b/i)?.[1].toUpperCase()
+}
+
+/**
+ * Lists the models a llama.cpp server serves, with the context length it was started with, vision support and quantization.
+ * The model listing only has the context length the model was trained with, the server's properties have the one it actually uses.
+ * https://github.com/ggml-org/llama.cpp/tree/master/tools/server#api-endpoints
+ */
+export async function fetchLlamaCppModels(baseUrl: string): Promise<Record<string, Partial<ModelInfo>>> {
+	const response = await axios.get(`${baseUrl}/v1/models`)
+	// older servers don't have the properties endpoint
+	const props = await axios
+		.get(`${baseUrl}/props`)
+		.then((response) => response.data)
+		.catch(() => undefined)
+	const models: Record<string, Partial<ModelInfo>> = {}
+	for (const model of response.data?.data ?? []) {
+		const info: Partial<ModelInfo> = {}
+		const contextLength = props?.default_generation_settings?.n_ctx ?? model.meta?.n_ctx_train
+		if (typeof contextLength === "number") {
+			info.contextWindow = contextLength
+		}
+		if (typeof props?.modalities?.vision === "boolean") {
+			info.supportsImages = props.modalities.vision
+		}
+		const quantization = parseQuantization(model.id)
+		if (quantization) {
+			info.quantization = quantization
+		}
+		models[model.id] = info
+	}
+	return models
+}
+
+export class LlamaCppHandler implements ApiHandler {
+	private options: ApiHandlerOptions
+	private client: OpenAI
+	private reportedModelInfo?: Partial<ModelInfo> // read before the first request, since the server may have been restarted since the model was selected
+
+	constructor(options: ApiHandlerOptions) {
+		this.options = options
+		this.client = new OpenAI({
+			baseURL: this.options.llamaCppBaseUrl + "/v1",
+			apiKey: "noop",
+		})
+	}
+
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages, tools))
+	}
+
+	private async *streamMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		if (!this.reportedModelInfo) {
+			try {
+				const models = await fetchLlamaCppModels(this.options.llamaCppBaseUrl ?? "")
+				this.reportedModelInfo = models[this.getModel().id] ?? {}
+			} catch (error) {
+				// the request itself reports problems like the server not running
+				console.error("Failed to read llama.cpp model info:", error)
+				this.reportedModelInfo = {}
+			}
+		}
+		const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+			{ role: "system", content: systemPrompt },
+			...convertToOpenAiMessages(messages),
+		]
+
+		const { id, info } = this.getModel()
+		const stream = await this.client.chat.completions.create({
+			model: id,
+			messages: openAiMessages,
+			temperature: 0,
+			max_tokens: info.maxTokens && info.maxTokens > 0 ? info.maxTokens : undefined,
+			stream: true,
+			stream_options: { include_usage: true },
+			tools: tools?.length ? convertToOpenAiTools(tools) : undefined,
+		})
+		const toolCalls: ApiStreamToolCallChunk[] = []
+		for await (const chunk of stream) {
+			const delta = chunk.choices[0]?.delta
+			accumulateToolCallDeltas(toolCalls, delta?.tool_calls)
+			if (delta?.content) {
+				yield {
+					type: "text",
+					text: delta.content,
+				}
+			}
+			if (chunk.usage) {
+				yield {
+					type: "usage",
+					inputTokens: chunk.usage.prompt_tokens || 0,
+					outputTokens: chunk.usage.completion_tokens || 0,
+				}
+			}
+		}
+		// arguments are only complete once the stream ends
+		for (const toolCall of toolCalls.filter(Boolean)) {
+			yield toolCall
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		const id = this.options.llamaCppModelId || ""
+		return {
+			id,
+			info: getModelInfoWithOverride(this.options, "llamacpp", id, {
+				...openAiModelInfoSaneDefaults,
+				...this.options.llamaCppModelInfo,
+				...this.reportedModelInfo,
+			}),
+		}
+	}
+}
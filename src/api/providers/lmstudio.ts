@@ -1,56 +1,143 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import axios from "axios"
 import OpenAI from "openai"
-import { ApiHandler } from "../"
+import { ApiHandler, ApiToolDefinition } from "../"
 import { ApiHandlerOptions, ModelInfo, openAiModelInfoSaneDefaults } from "../../shared/api"
-import { convertToOpenAiMessages } from "../transform/openai-format"
-import { ApiStream } from "../transform/stream"
+import { getModelInfoWithOverride } from "../../shared/modelInfoOverrides"
+import { catchApiErrors, toApiErrorChunk } from "../errors"
+import { accumulateToolCallDeltas, convertToOpenAiMessages, convertToOpenAiTools } from "../transform/openai-format"
+import { ApiStream, ApiStreamToolCallChunk } from "../transform/stream"
+
+const DEFAULT_LMSTUDIO_BASE_URL = "http://localhost:1234"
+
+/**
+ * Lists the models LM Studio has downloaded, with the context length, vision support and quantization it reports for them.
+ * Loaded models report the context length they were loaded with, which is often less than the model's maximum.
+ * https://lmstudio.ai/docs/api/rest-api
+ */
+export async function fetchLmStudioModels(baseUrl?: string): Promise<Record<string, Partial<ModelInfo>>> {
+	let response
+	try {
+		response = await axios.get(`${baseUrl || DEFAULT_LMSTUDIO_BASE_URL}/api/v0/models`)
+	} catch (error) {
+		// versions before 0.3.6 only have the OpenAI compatible endpoint, which lists the model IDs
+		response = await axios.get(`${baseUrl || DEFAULT_LMSTUDIO_BASE_URL}/v1/models`)
+		return Object.fromEntries((response.data?.data ?? []).map((model: any) => [model.id, {}]))
+	}
+	const models: Record<string, Partial<ModelInfo>> = {}
+	for (const model of response.data?.data ?? []) {
+		if (model.type === "embeddings") {
+			continue
+		}
+		const info: Partial<ModelInfo> = {}
+		const contextLength = model.loaded_context_length ?? model.max_context_length
+		if (typeof contextLength === "number") {
+			info.contextWindow = contextLength
+		}
+		if (model.type) {
+			info.supportsImages = model.type === "vlm"
+		}
+		if (model.quantization) {
+			info.quantization = model.quantization
+		}
+		models[model.id] = info
+	}
+	return models
+}
 
 export class LmStudioHandler implements ApiHandler {
 	private options: ApiHandlerOptions
 	private client: OpenAI
+	private reportedModelInfo?: Partial<ModelInfo> // read before the first request, since the model may have been reloaded since it was selected
 
 	constructor(options: ApiHandlerOptions) {
 		this.options = options
 		this.client = new OpenAI({
-			baseURL: (this.options.lmStudioBaseUrl || "http://localhost:1234") + "/v1",
+			baseURL: (this.options.lmStudioBaseUrl || DEFAULT_LMSTUDIO_BASE_URL) + "/v1",
 			apiKey: "noop",
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages, tools))
+	}
+
+	private async *streamMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		if (!this.reportedModelInfo) {
+			try {
+				const models = await fetchLmStudioModels(this.options.lmStudioBaseUrl)
+				this.reportedModelInfo = models[this.getModel().id] ?? {}
+			} catch (error) {
+				// the request itself reports problems like the server not running
+				console.error("Failed to read LM Studio model info:", error)
+				this.reportedModelInfo = {}
+			}
+		}
 		const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
 			{ role: "system", content: systemPrompt },
 			...convertToOpenAiMessages(messages),
 		]
 
 		try {
+			const maxTokens = this.getModel().info.maxTokens
 			const stream = await this.client.chat.completions.create({
 				model: this.getModel().id,
 				messages: openAiMessages,
 				temperature: 0,
+				max_tokens: maxTokens && maxTokens > 0 ? maxTokens : undefined,
 				stream: true,
+				stream_options: { include_usage: true },
+				tools: tools?.length ? convertToOpenAiTools(tools) : undefined,
 			})
+			const toolCalls: ApiStreamToolCallChunk[] = []
 			for await (const chunk of stream) {
 				const delta = chunk.choices[0]?.delta
+				accumulateToolCallDeltas(toolCalls, delta?.tool_calls)
 				if (delta?.content) {
 					yield {
 						type: "text",
 						text: delta.content,
 					}
 				}
+				if (chunk.usage) {
+					yield {
+						type: "usage",
+						inputTokens: chunk.usage.prompt_tokens || 0,
+						outputTokens: chunk.usage.completion_tokens || 0,
+					}
+				}
+			}
+			// arguments are only complete once the stream ends
+			for (const toolCall of toolCalls.filter(Boolean)) {
+				yield toolCall
 			}
 		} catch (error) {
 			// LM Studio doesn't return an error code/body for now
-			throw new Error(
-				"Please check the LM Studio developer logs to debug what went wrong. You may need to load the model with a larger context length to work with Cline's prompts.",
-			)
+			yield {
+				...toApiErrorChunk(error),
+				message:
+					"Please check the LM Studio developer logs to debug what went wrong. You may need to load the model with a larger context length to work with Cline's prompts.",
+			}
 		}
 	}
 
 	getModel(): { id: string; info: ModelInfo } {
+		const id = this.options.lmStudioModelId || ""
 		return {
-			id: this.options.lmStudioModelId || "",
-			info: openAiModelInfoSaneDefaults,
+			id,
+			info: getModelInfoWithOverride(this.options, "lmstudio", id, {
+				...openAiModelInfoSaneDefaults,
+				...this.options.lmStudioModelInfo,
+				...this.reportedModelInfo,
+			}),
 		}
 	}
 }
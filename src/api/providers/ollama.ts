@@ -1,36 +1,174 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import axios from "axios"
 import OpenAI from "openai"
-import { ApiHandler } from "../"
-import { ApiHandlerOptions, ModelInfo, openAiModelInfoSaneDefaults } from "../../shared/api"
-import { convertToOpenAiMessages } from "../transform/openai-format"
-import { ApiStream } from "../transform/stream"
+import * as readline from "readline"
+import { ApiHandler, ApiToolDefinition } from "../"
+import { ApiHandlerOptions, ModelInfo, ollamaDefaultNumCtx, openAiModelInfoSaneDefaults } from "../../shared/api"
+import { getModelInfoOverride, getModelInfoWithOverride } from "../../shared/modelInfoOverrides"
+import { catchApiErrors } from "../errors"
+import { convertToOllamaMessages } from "../transform/ollama-format"
+import { accumulateToolCallDeltas, convertToOpenAiMessages, convertToOpenAiTools } from "../transform/openai-format"
+import { ApiStream, ApiStreamToolCallChunk } from "../transform/stream"
+
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434"
+
+// Ollama responds with {"error": "..."} when a request fails, e.g. because the model isn't pulled
+function getOllamaErrorMessage(body: string): string {
+	try {
+		return JSON.parse(body).error || body
+	} catch {
+		return body
+	}
+}
+
+/**
+ * Reads the context length and capabilities Ollama reports for a model, leaving out what it doesn't report.
+ * https://github.com/ollama/ollama/blob/main/docs/api.md#show-model-information
+ */
+export async function fetchOllamaModelInfo(baseUrl: string | undefined, modelId: string): Promise<Partial<ModelInfo>> {
+	const response = await axios.post(`${baseUrl || DEFAULT_OLLAMA_BASE_URL}/api/show`, { model: modelId })
+	const info: Partial<ModelInfo> = {}
+	// the key is prefixed with the model architecture, e.g. llama.context_length
+	const contextLength = Object.entries(response.data?.model_info ?? {}).find(([key]) =>
+		key.endsWith(".context_length"),
+	)?.[1]
+	if (typeof contextLength === "number") {
+		info.contextWindow = contextLength
+	}
+	// older versions of Ollama don't report capabilities
+	if (Array.isArray(response.data?.capabilities)) {
+		info.supportsImages = response.data.capabilities.includes("vision")
+	}
+	return info
+}
 
 export class OllamaHandler implements ApiHandler {
 	private options: ApiHandlerOptions
 	private client: OpenAI
+	private reportedModelInfo?: Partial<ModelInfo> // read before the first request in native API mode
 
 	constructor(options: ApiHandlerOptions) {
 		this.options = options
 		this.client = new OpenAI({
-			baseURL: (this.options.ollamaBaseUrl || "http://localhost:11434") + "/v1",
+			baseURL: (this.options.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL) + "/v1",
 			apiKey: "ollama",
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		return catchApiErrors(
+			this.options.ollamaNativeApi
+				? this.streamNativeMessage(systemPrompt, messages, tools)
+				: this.streamMessage(systemPrompt, messages, tools),
+		)
+	}
+
+	/**
+	 * Uses Ollama's own chat endpoint, which reports token usage and takes the options the OpenAI compatible endpoint ignores, like the context length.
+	 * Without num_ctx Ollama loads models with a small default context and silently drops the start of longer prompts.
+	 */
+	private async *streamNativeMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		if (!this.reportedModelInfo) {
+			try {
+				this.reportedModelInfo = await fetchOllamaModelInfo(this.options.ollamaBaseUrl, this.getModel().id)
+			} catch (error) {
+				// the request itself reports problems like a missing model
+				console.error("Failed to read Ollama model info:", error)
+				this.reportedModelInfo = {}
+			}
+		}
+		const { id, info } = this.getModel()
+		const modelOptions = this.options.ollamaModelOptions?.[id]
+		const response = await axios.post(
+			`${this.options.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL}/api/chat`,
+			{
+				model: id,
+				messages: convertToOllamaMessages(systemPrompt, messages),
+				tools: tools?.length ? convertToOpenAiTools(tools) : undefined,
+				stream: true,
+				keep_alive: modelOptions?.keepAlive,
+				options: {
+					num_ctx: this.getContextLength(id),
+					num_predict: info.maxTokens && info.maxTokens > 0 ? info.maxTokens : undefined,
+					temperature: modelOptions?.temperature ?? 0,
+				},
+			},
+			{ responseType: "stream", validateStatus: () => true },
+		)
+		if (response.status >= 400) {
+			let body = ""
+			for await (const data of response.data) {
+				body += data
+			}
+			const message = getOllamaErrorMessage(body) || `Ollama responded with status ${response.status}`
+			throw Object.assign(new Error(message), { status: response.status })
+		}
+
+		// the response is a JSON object per line, the last one has the token counts
+		let toolCallCount = 0
+		for await (const line of readline.createInterface({ input: response.data, crlfDelay: Infinity })) {
+			if (!line.trim()) {
+				continue
+			}
+			const chunk = JSON.parse(line)
+			if (chunk.error) {
+				throw new Error(chunk.error)
+			}
+			if (chunk.message?.content) {
+				yield {
+					type: "text",
+					text: chunk.message.content,
+				}
+			}
+			for (const toolCall of chunk.message?.tool_calls ?? []) {
+				yield {
+					type: "tool_call",
+					id: `call_${toolCallCount++}`,
+					name: toolCall.function?.name ?? "",
+					arguments: JSON.stringify(toolCall.function?.arguments ?? {}),
+				}
+			}
+			if (chunk.done) {
+				yield {
+					type: "usage",
+					inputTokens: chunk.prompt_eval_count ?? 0,
+					outputTokens: chunk.eval_count ?? 0,
+				}
+			}
+		}
+	}
+
+	private async *streamMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
 		const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
 			{ role: "system", content: systemPrompt },
 			...convertToOpenAiMessages(messages),
 		]
 
+		const maxTokens = this.getModel().info.maxTokens
 		const stream = await this.client.chat.completions.create({
 			model: this.getModel().id,
 			messages: openAiMessages,
 			temperature: 0,
+			max_tokens: maxTokens && maxTokens > 0 ? maxTokens : undefined,
 			stream: true,
+			tools: tools?.length ? convertToOpenAiTools(tools) : undefined,
 		})
+		const toolCalls: ApiStreamToolCallChunk[] = []
 		for await (const chunk of stream) {
 			const delta = chunk.choices[0]?.delta
+			accumulateToolCallDeltas(toolCalls, delta?.tool_calls)
 			if (delta?.content) {
 				yield {
 					type: "text",
@@ -38,12 +176,32 @@ export class OllamaHandler implements ApiHandler {
 				}
 			}
 		}
+		// arguments are only complete once the stream ends
+		for (const toolCall of toolCalls.filter(Boolean)) {
+			yield toolCall
+		}
+	}
+
+	// the context length set for the model, or else its full context length up to the default if it's known
+	private getContextLength(modelId: string): number | undefined {
+		const reportedContextWindow = this.reportedModelInfo?.contextWindow
+		return (
+			this.options.ollamaModelOptions?.[modelId]?.numCtx ??
+			getModelInfoOverride(this.options, "ollama", modelId)?.info.contextWindow ??
+			(reportedContextWindow ? Math.min(reportedContextWindow, ollamaDefaultNumCtx) : undefined)
+		)
 	}
 
 	getModel(): { id: string; info: ModelInfo } {
-		return {
-			id: this.options.ollamaModelId || "",
-			info: openAiModelInfoSaneDefaults,
+		const id = this.options.ollamaModelId || ""
+		const info = getModelInfoWithOverride(this.options, "ollama", id, {
+			...openAiModelInfoSaneDefaults,
+			...this.reportedModelInfo,
+		})
+		if (!this.options.ollamaNativeApi) {
+			return { id, info }
 		}
+		// the model only sees as much of the prompt as it's loaded with, so truncation has to go by that
+		return { id, info: { ...info, contextWindow: this.getContextLength(id) ?? info.contextWindow } }
 	}
 }
@@ -3,12 +3,15 @@ import OpenAI from "openai"
 import { ApiHandler } from "../"
 import {
 	ApiHandlerOptions,
+	isReasoningModel,
 	ModelInfo,
 	openAiNativeDefaultModelId,
 	OpenAiNativeModelId,
 	openAiNativeModels,
 } from "../../shared/api"
-import { structurePromptForCaching } from "../../utils/prompt-cache"
+import { getCacheInfo, separateEnvironmentDetails, structurePromptForCaching } from "../../utils/prompt-cache"
+import { catchApiErrors } from "../errors"
+import { streamReasoningModelMessage } from "../reasoning"
 import { convertToOpenAiMessages } from "../transform/openai-format"
 import { ApiStream } from "../transform/stream"
 
@@ -23,61 +26,53 @@ export class OpenAiNativeHandler implements ApiHandler {
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
-		switch (this.getModel().id) {
-			case "o1-preview":
-			case "o1-mini": {
-				// o1 doesnt support streaming, non-1 temp, or system prompt
-				// For o1 models, system prompt is sent as user message
-				const response = await this.client.chat.completions.create({
-					model: this.getModel().id,
-					messages: structurePromptForCaching(
-						"", // o1 doesn't support system prompts
-						[{ role: "user", content: systemPrompt }],
-						convertToOpenAiMessages(messages)
-					),
-				})
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages))
+	}
+
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		const { staticMessages, variableMessages } = this.options.cacheAwareEnvironmentDetails
+			? separateEnvironmentDetails(messages)
+			: { staticMessages: [], variableMessages: messages }
+		if (isReasoningModel(this.getModel().id)) {
+			yield* streamReasoningModelMessage(this.client, systemPrompt, [...staticMessages, ...variableMessages], {
+				model: this.getModel().id,
+				reasoningEffort: this.options.reasoningEffort,
+			})
+			return
+		}
+		const stream = await this.client.chat.completions.create({
+			model: this.getModel().id,
+			temperature: 0,
+			messages: structurePromptForCaching(
+				systemPrompt,
+				convertToOpenAiMessages(staticMessages),
+				convertToOpenAiMessages(variableMessages)
+			),
+			stream: true,
+			stream_options: { include_usage: true },
+		})
+
+		for await (const chunk of stream) {
+			const delta = chunk.choices[0]?.delta
+			if (delta?.content) {
 				yield {
 					type: "text",
-					text: response.choices[0]?.message.content || "",
+					text: delta.content,
 				}
-				yield {
-					type: "usage",
-					inputTokens: response.usage?.prompt_tokens || 0,
-					outputTokens: response.usage?.completion_tokens || 0,
-				}
-				break
 			}
-			default: {
-				const stream = await this.client.chat.completions.create({
-					model: this.getModel().id,
-					temperature: 0,
-					messages: structurePromptForCaching(
-						systemPrompt,
-						[], // No additional static messages
-						convertToOpenAiMessages(messages)
-					),
-					stream: true,
-					stream_options: { include_usage: true },
-				})
-
-				for await (const chunk of stream) {
-					const delta = chunk.choices[0]?.delta
-					if (delta?.content) {
-						yield {
-							type: "text",
-							text: delta.content,
-						}
-					}
 
-					// contains a null value except for the last chunk which contains the token usage statistics for the entire request
-					if (chunk.usage) {
-						yield {
-							type: "usage",
-							inputTokens: chunk.usage.prompt_tokens || 0,
-							outputTokens: chunk.usage.completion_tokens || 0,
-						}
-					}
+			// contains a null value except for the last chunk which contains the token usage statistics for the entire request
+			// prompt_tokens includes cached tokens, so we split them out to have them priced at the cache read rate
+			if (chunk.usage) {
+				const cacheReadTokens = getCacheInfo(chunk)
+				const reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens || 0
+				yield {
+					type: "usage",
+					inputTokens: (chunk.usage.prompt_tokens || 0) - cacheReadTokens,
+					outputTokens: (chunk.usage.completion_tokens || 0) - reasoningTokens,
+					cacheReadTokens: cacheReadTokens || undefined,
+					reasoningTokens: reasoningTokens || undefined,
 				}
 			}
 		}
@@ -3,13 +3,16 @@ import OpenAI, { AzureOpenAI } from "openai"
 import {
 	ApiHandlerOptions,
 	azureOpenAiDefaultApiVersion,
+	isReasoningModel,
 	ModelInfo,
-	openAiModelInfoSaneDefaults,
 } from "../../shared/api"
-import { structurePromptForCaching } from "../../utils/prompt-cache"
-import { ApiHandler } from "../index"
-import { convertToOpenAiMessages } from "../transform/openai-format"
-import { ApiStream } from "../transform/stream"
+import { getModelInfoWithOverride } from "../../shared/modelInfoOverrides"
+import { getCacheInfo, separateEnvironmentDetails, structurePromptForCaching } from "../../utils/prompt-cache"
+import { ApiHandler, ApiToolDefinition } from "../index"
+import { catchApiErrors } from "../errors"
+import { streamReasoningModelMessage } from "../reasoning"
+import { accumulateToolCallDeltas, convertToOpenAiMessages, convertToOpenAiTools } from "../transform/openai-format"
+import { ApiStream, ApiStreamToolCallChunk } from "../transform/stream"
 
 export class OpenAiHandler implements ApiHandler {
 	private options: ApiHandlerOptions
@@ -32,22 +35,52 @@ export class OpenAiHandler implements ApiHandler {
 		}
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages, tools))
+	}
+
+	private async *streamMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
 		// Structure messages for optimal caching with system prompt at the beginning
+		const { staticMessages, variableMessages } = this.options.cacheAwareEnvironmentDetails
+			? separateEnvironmentDetails(messages)
+			: { staticMessages: [], variableMessages: messages }
+		const { id: modelId, info } = this.getModel()
+		if (isReasoningModel(modelId)) {
+			yield* streamReasoningModelMessage(this.client, systemPrompt, [...staticMessages, ...variableMessages], {
+				model: modelId,
+				reasoningEffort: this.options.reasoningEffort,
+				maxTokens: info.maxTokens,
+			})
+			return
+		}
 		const openAiMessages = structurePromptForCaching(
 			systemPrompt,
-			[], // No additional static messages
-			convertToOpenAiMessages(messages)
+			convertToOpenAiMessages(staticMessages),
+			convertToOpenAiMessages(variableMessages)
 		)
+		// the sane defaults leave the response length to the server, an override can set it
+		const maxTokens = info.maxTokens
 		const stream = await this.client.chat.completions.create({
-			model: this.options.openAiModelId ?? "",
+			model: modelId,
 			messages: openAiMessages,
 			temperature: 0,
+			max_tokens: maxTokens && maxTokens > 0 ? maxTokens : undefined,
 			stream: true,
+			tools: tools?.length ? convertToOpenAiTools(tools) : undefined,
 			stream_options: { include_usage: true },
 		})
+		const toolCalls: ApiStreamToolCallChunk[] = []
 		for await (const chunk of stream) {
 			const delta = chunk.choices[0]?.delta
+			accumulateToolCallDeltas(toolCalls, delta?.tool_calls)
 			if (delta?.content) {
 				yield {
 					type: "text",
@@ -55,19 +88,27 @@ export class OpenAiHandler implements ApiHandler {
 				}
 			}
 			if (chunk.usage) {
+				// prompt_tokens includes cached tokens, so we split them out to have them priced at the cache read rate
+				const cacheReadTokens = getCacheInfo(chunk)
 				yield {
 					type: "usage",
-					inputTokens: chunk.usage.prompt_tokens || 0,
+					inputTokens: (chunk.usage.prompt_tokens || 0) - cacheReadTokens,
 					outputTokens: chunk.usage.completion_tokens || 0,
+					cacheReadTokens: cacheReadTokens || undefined,
 				}
 			}
 		}
+		// arguments are only complete once the stream ends
+		for (const toolCall of toolCalls.filter(Boolean)) {
+			yield toolCall
+		}
 	}
 
 	getModel(): { id: string; info: ModelInfo } {
+		const id = this.options.openAiModelId ?? ""
 		return {
-			id: this.options.openAiModelId ?? "",
-			info: openAiModelInfoSaneDefaults,
+			id,
+			info: getModelInfoWithOverride(this.options, "openai", id),
 		}
 	}
 }
@@ -2,7 +2,18 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import axios from "axios"
 import OpenAI from "openai"
 import { ApiHandler } from "../"
-import { ApiHandlerOptions, ModelInfo, openRouterDefaultModelId, openRouterDefaultModelInfo } from "../../shared/api"
+import { findLast } from "../../shared/array"
+import {
+	ApiHandlerOptions,
+	isReasoningModel,
+	ModelInfo,
+	openRouterDefaultModelId,
+	openRouterDefaultModelInfo,
+} from "../../shared/api"
+import { ClineCacheBreakpoint } from "../../shared/ExtensionMessage"
+import { catchApiErrors, toApiErrorChunk } from "../errors"
+import { streamReasoningModelMessage } from "../reasoning"
+import { getCacheBreakpointCoverage, placeCacheBreakpoints } from "../transform/cache-breakpoints"
 import { convertToOpenAiMessages } from "../transform/openai-format"
 import { ApiStream } from "../transform/stream"
 import delay from "delay"
@@ -23,15 +34,28 @@ export class OpenRouterHandler implements ApiHandler {
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
-		// Convert Anthropic messages to OpenAI format
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		return catchApiErrors(this.streamMessage(systemPrompt, messages))
+	}
+
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		if (isReasoningModel(this.getModel().id)) {
+			yield* streamReasoningModelMessage(this.client, systemPrompt, messages, {
+				model: this.getModel().id,
+				reasoningEffort: this.options.reasoningEffort,
+			})
+			return
+		}
+		// Convert Anthropic messages to OpenAI format, keeping track of which OpenAI messages each one became so cache breakpoints can be placed on them
+		const convertedMessages = messages.map((message) => convertToOpenAiMessages([message]))
 		const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
 			{ role: "system", content: systemPrompt },
-			...convertToOpenAiMessages(messages),
+			...convertedMessages.flat(),
 		]
 
 		// prompt caching: https://openrouter.ai/docs/prompt-caching
 		// this is specifically for claude models (some models may 'support prompt caching' automatically without this)
+		let cacheBreakpoints: ClineCacheBreakpoint[] | undefined
 		switch (this.getModel().id) {
 			case "anthropic/claude-3.5-sonnet":
 			case "anthropic/claude-3.5-sonnet:beta":
@@ -45,21 +69,27 @@ export class OpenRouterHandler implements ApiHandler {
 			case "anthropic/claude-3-haiku:beta":
 			case "anthropic/claude-3-opus":
 			case "anthropic/claude-3-opus:beta":
-				openAiMessages[0] = {
-					role: "system",
-					content: [
-						{
-							type: "text",
-							text: systemPrompt,
-							// @ts-ignore-next-line
-							cache_control: { type: "ephemeral" },
-						},
-					],
+				const placement = placeCacheBreakpoints(messages, this.options.cacheBreakpointPolicy)
+				cacheBreakpoints = getCacheBreakpointCoverage(systemPrompt, messages, placement)
+				if (placement.systemPrompt) {
+					openAiMessages[0] = {
+						role: "system",
+						content: [
+							{
+								type: "text",
+								text: systemPrompt,
+								// @ts-ignore-next-line
+								cache_control: { type: "ephemeral" },
+							},
+						],
+					}
 				}
-				// Add cache_control to the last two user messages
-				// (note: this works because we only ever add one user message at a time, but if we added multiple we'd need to mark the user message before the last assistant message)
-				const lastTwoUserMessages = openAiMessages.filter((msg) => msg.role === "user").slice(-2)
-				lastTwoUserMessages.forEach((msg) => {
+				// a user message with tool results is split into tool messages followed by a user message, so the breakpoint goes on that user message
+				placement.messages.forEach(({ index }) => {
+					const msg = findLast(convertedMessages[index], (msg) => msg.role === "user")
+					if (!msg) {
+						return
+					}
 					if (typeof msg.content === "string") {
 						msg.content = [{ type: "text", text: msg.content }]
 					}
@@ -107,7 +137,12 @@ export class OpenRouterHandler implements ApiHandler {
 			messages: openAiMessages,
 			stream: true,
 			transforms: shouldApplyMiddleOutTransform ? ["middle-out"] : undefined,
+			include_reasoning: true,
 		})
+		// only reported once the request was accepted, and as metadata it doesn't keep an error later in the stream from being retried
+		if (cacheBreakpoints) {
+			yield { type: "cache_breakpoints", breakpoints: cacheBreakpoints }
+		}
 
 		let genId: string | undefined
 
@@ -116,7 +151,12 @@ export class OpenRouterHandler implements ApiHandler {
 			if ("error" in chunk) {
 				const error = chunk.error as { message?: string; code?: number }
 				console.error(`OpenRouter API Error: ${error?.code} - ${error?.message}`)
-				throw new Error(`OpenRouter API Error ${error?.code}: ${error?.message}`)
+				// the code is an HTTP status, where 403 means the input was flagged by moderation
+				yield toApiErrorChunk(
+					{ status: error?.code, message: error?.message ?? `OpenRouter API Error ${error?.code}` },
+					error?.code === 403 ? "content_filter" : undefined,
+				)
+				return
 			}
 
 			if (!genId && chunk.id) {
@@ -124,6 +164,13 @@ export class OpenRouterHandler implements ApiHandler {
 			}
 
 			const delta = chunk.choices[0]?.delta
+			// reasoning models stream their reasoning in a separate field before the answer
+			if (delta && "reasoning" in delta && delta.reasoning) {
+				yield {
+					type: "reasoning",
+					reasoning: delta.reasoning as string,
+				}
+			}
 			if (delta?.content) {
 				yield {
 					type: "text",
@@ -157,7 +204,8 @@ export class OpenRouterHandler implements ApiHandler {
 				// cacheReadTokens: 0,
 				// openrouter generation endpoint fails often
 				inputTokens: generation?.native_tokens_prompt || 0,
-				outputTokens: generation?.native_tokens_completion || 0,
+				outputTokens: (generation?.native_tokens_completion || 0) - (generation?.native_tokens_reasoning || 0),
+				reasoningTokens: generation?.native_tokens_reasoning || undefined,
 				totalCost: generation?.total_cost || 0,
 			}
 		} catch (error) {
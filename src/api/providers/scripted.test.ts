@@ -0,0 +1,97 @@
+import * as fs from "fs/promises"
+import { after, before, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import "should"
+import { ApiStream, ApiStreamChunk } from "../transform/stream"
+import { Script, ScriptedHandler } from "./scripted"
+
+async function collect(stream: ApiStream): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("ScriptedHandler", () => {
+	const tmpDir = path.join(os.tmpdir(), "cline-test-" + Math.random().toString(36).slice(2))
+	const scriptPath = path.join(tmpDir, "script.json")
+
+	const writeScript = (script: Script) => fs.writeFile(scriptPath, JSON.stringify(script))
+
+	before(async () => {
+		await fs.mkdir(tmpDir, { recursive: true })
+	})
+
+	after(async () => {
+		try {
+			await fs.rm(tmpDir, { recursive: true, force: true })
+		} catch {
+			// Ignore cleanup errors
+		}
+	})
+
+	it("should stream the responses in order", async () => {
+		await writeScript({
+			responses: [
+				{
+					reasoning: "Look at the file first.",
+					text: "<read_file>\n<path>src/index.ts</path>\n</read_file>",
+					usage: { inputTokens: 100, outputTokens: 20 },
+				},
+				{ text: "Done." },
+			],
+		})
+		const handler = new ScriptedHandler({ scriptedResponsesPath: scriptPath })
+
+		const chunks = await collect(handler.createMessage())
+		chunks[0].should.deepEqual({ type: "reasoning", reasoning: "Look at the file first." })
+		chunks
+			.filter((chunk) => chunk.type === "text")
+			.map((chunk) => chunk.text)
+			.should.deepEqual(["<read_file>\n", "<path>src/index.ts</path>\n", "</read_file>"])
+		chunks.at(-1)!.should.have.properties({ type: "usage", inputTokens: 100, outputTokens: 20 })
+		;(await collect(handler.createMessage())).should.containDeep([{ type: "text", text: "Done." }])
+	})
+
+	it("should inject errors after the streamed text", async () => {
+		await writeScript({ responses: [{ text: "Partial", error: { message: "Overloaded", status: 529 } }] })
+		const chunks = await collect(new ScriptedHandler({ scriptedResponsesPath: scriptPath }).createMessage())
+		chunks[0].should.deepEqual({ type: "text", text: "Partial" })
+		chunks[1].should.have.properties({ type: "error", kind: "server", message: "Overloaded", status: 529 })
+	})
+
+	it("should fail once the script runs out, unless it loops", async () => {
+		await writeScript({ responses: [{ text: "Hello" }] })
+		const handler = new ScriptedHandler({ scriptedResponsesPath: scriptPath })
+		await collect(handler.createMessage())
+		;(await collect(handler.createMessage()))[0].should.have.properties({ type: "error" })
+
+		await writeScript({ responses: [{ text: "Hello" }], loop: true })
+		;(await collect(handler.createMessage())).should.containDeep([{ type: "text", text: "Hello" }])
+	})
+
+	it("should read YAML scripts", async () => {
+		const yamlPath = path.join(tmpDir, "script.yaml")
+		await fs.writeFile(
+			yamlPath,
+			[
+				"responses:",
+				"  - text: |",
+				"      <read_file>",
+				"      <path>src/index.ts</path>",
+				"      </read_file>",
+				"    usage:",
+				"      inputTokens: 100",
+			].join("\n"),
+		)
+		const chunks = await collect(new ScriptedHandler({ scriptedResponsesPath: yamlPath }).createMessage())
+		chunks
+			.filter((chunk) => chunk.type === "text")
+			.map((chunk) => chunk.text)
+			.join("")
+			.should.equal("<read_file>\n<path>src/index.ts</path>\n</read_file>\n")
+		chunks.at(-1)!.should.have.properties({ type: "usage", inputTokens: 100 })
+	})
+})
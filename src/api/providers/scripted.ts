@@ -0,0 +1,98 @@
+import delay from "delay"
+import fs from "fs/promises"
+import * as yaml from "js-yaml"
+import * as path from "path"
+import { ApiHandler } from "../"
+import { ApiHandlerOptions, ModelInfo, scriptedModelInfo } from "../../shared/api"
+import { catchApiErrors } from "../errors"
+import { ApiStream } from "../transform/stream"
+
+// one response of a script, streamed word by word like a model response
+export interface ScriptedResponse {
+	text?: string // may include tool use XML, which goes through the same parsing and approvals as a model's
+	reasoning?: string
+	usage?: {
+		inputTokens?: number
+		outputTokens?: number
+		cacheWriteTokens?: number
+		cacheReadTokens?: number
+		reasoningTokens?: number
+	}
+	delayMs?: number // before the first chunk
+	chunkDelayMs?: number // between chunks
+	error?: {
+		message: string
+		status?: number // classified like a provider error, e.g. 429 to trigger the retries
+	}
+}
+
+export interface Script {
+	responses: ScriptedResponse[]
+	loop?: boolean // start over after the last response instead of failing
+}
+
+/**
+ * Plays back responses from a local JSON or YAML script in request order, so the agent loop, approvals and UI states can be driven without a model.
+ * The script is read on every request, so it can be edited while a task runs.
+ */
+export class ScriptedHandler implements ApiHandler {
+	private options: ApiHandlerOptions
+	private requestCount = 0
+
+	constructor(options: ApiHandlerOptions) {
+		this.options = options
+	}
+
+	// responses don't depend on the request, they're played back in order
+	createMessage(): ApiStream {
+		return catchApiErrors(this.streamMessage())
+	}
+
+	private async *streamMessage(): ApiStream {
+		const script = await readScript(this.options.scriptedResponsesPath ?? "")
+		const index = this.requestCount++
+		const response = script.loop ? script.responses[index % script.responses.length] : script.responses[index]
+		if (!response) {
+			throw new Error(`The script has no response for request ${index + 1}`)
+		}
+
+		await delay(response.delayMs ?? 0)
+		if (response.reasoning) {
+			yield { type: "reasoning", reasoning: response.reasoning }
+		}
+		// splitting after whitespace keeps every character, so partial tool uses are streamed like a model's
+		for (const [i, text] of (response.text?.split(/(?<=\s)/) ?? []).entries()) {
+			if (i > 0) {
+				await delay(response.chunkDelayMs ?? 0)
+			}
+			yield { type: "text", text }
+		}
+		if (response.error) {
+			throw Object.assign(new Error(response.error.message), { status: response.error.status })
+		}
+		yield {
+			type: "usage",
+			inputTokens: response.usage?.inputTokens ?? 0,
+			outputTokens: response.usage?.outputTokens ?? 0,
+			cacheWriteTokens: response.usage?.cacheWriteTokens,
+			cacheReadTokens: response.usage?.cacheReadTokens,
+			reasoningTokens: response.usage?.reasoningTokens,
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return { id: "scripted", info: scriptedModelInfo }
+	}
+}
+
+// YAML is easier to write by hand, since multi-line tool use XML can be written as block scalars
+async function readScript(filePath: string): Promise<Script> {
+	const content = await fs.readFile(filePath, "utf8")
+	switch (path.extname(filePath).toLowerCase()) {
+		case ".yaml":
+		case ".yml":
+			return yaml.load(content) as Script
+		default:
+			return JSON.parse(content)
+	}
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import * as http from "http"
+import { GoogleAuth, OAuth2Client } from "google-auth-library"
+import { AddressInfo } from "net"
+import { ApiStreamChunk } from "../transform/stream"
+import { VertexHandler } from "./vertex"
+
+interface RecordedRequest {
+	url: string
+	authorization?: string
+	body: any
+}
+
+interface StandInResponse {
+	status: number
+	contentType: string
+	body: string
+}
+
+const sse = (events: object[]) => events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("")
+
+// stands in for the Vertex AI endpoints of a region, answering every request with the given response
+function startVertexStandIn(requests: RecordedRequest[], response: StandInResponse): Promise<http.Server> {
+	const server = http.createServer((req, res) => {
+		let data = ""
+		req.on("data", (chunk) => (data += chunk))
+		req.on("end", () => {
+			requests.push({ url: req.url!, authorization: req.headers.authorization, body: JSON.parse(data) })
+			res.statusCode = response.status
+			res.setHeader("Content-Type", response.contentType)
+			res.end(response.body)
+		})
+	})
+	return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)))
+}
+
+// Application Default Credentials aren't available in tests, so the handler gets a client that already has a token
+const auth = new GoogleAuth({
+	authClient: new OAuth2Client({
+		credentials: { access_token: "test-token", expiry_date: Date.now() + 60 * 60 * 1000 },
+	}),
+}) as GoogleAuth
+
+async function collect(stream: AsyncIterable<ApiStreamChunk>): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("VertexHandler", () => {
+	let server: http.Server | undefined
+	let requests: RecordedRequest[]
+
+	beforeEach(() => {
+		requests = []
+	})
+
+	afterEach(() => {
+		server?.close()
+	})
+
+	async function streamFrom(modelId: string, response: StandInResponse): Promise<ApiStreamChunk[]> {
+		server = await startVertexStandIn(requests, response)
+		const handler = new VertexHandler(
+			{
+				apiModelId: modelId,
+				vertexProjectId: "test-project",
+				vertexRegion: "us-central1",
+				vertexBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+			},
+			auth,
+		)
+		return collect(handler.createMessage("You are Cline", [{ role: "user", content: "Hi" }]))
+	}
+
+	it("should stream Gemini models from the publisher endpoint", async () => {
+		const chunks = await streamFrom("gemini-1.5-pro-002", {
+			status: 200,
+			contentType: "text/event-stream",
+			body: sse([
+				{ candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] }, index: 0 }] },
+				{
+					candidates: [{ content: { role: "model", parts: [{ text: "lo" }] }, index: 0 }],
+					usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 5 },
+				},
+			]),
+		})
+
+		requests[0].url.should.equal(
+			"/v1/projects/test-project/locations/us-central1/publishers/google/models/gemini-1.5-pro-002:streamGenerateContent?alt=sse",
+		)
+		requests[0].authorization!.should.equal("Bearer test-token")
+		requests[0].body.should.have.properties({
+			contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+			systemInstruction: { parts: [{ text: "You are Cline" }] },
+		})
+		chunks.should.deepEqual([
+			{ type: "text", text: "Hel" },
+			{ type: "text", text: "lo" },
+			{
+				type: "usage",
+				inputTokens: 100,
+				outputTokens: 5,
+				cacheWriteTokens: undefined,
+				cacheReadTokens: undefined,
+			},
+		])
+	})
+
+	it("should report the error status and message of a failed Gemini request", async () => {
+		const chunks = await streamFrom("gemini-1.5-pro-002", {
+			status: 429,
+			contentType: "application/json",
+			body: JSON.stringify({
+				error: {
+					code: 429,
+					message: "Resource exhausted. Please try again later.",
+					status: "RESOURCE_EXHAUSTED",
+				},
+			}),
+		})
+
+		chunks.should.have.length(1)
+		chunks[0].should.have.properties({
+			type: "error",
+			kind: "rate_limit",
+			message: "Resource exhausted. Please try again later.",
+			status: 429,
+		})
+	})
+
+	it("should stream Llama models from the OpenAI compatible endpoint", async () => {
+		const chunks = await streamFrom("meta/llama-3.3-70b-instruct-maas", {
+			status: 200,
+			contentType: "text/event-stream",
+			body:
+				sse([
+					{ id: "1", object: "chat.completion.chunk", choices: [{ index: 0, delta: { content: "Hello" } }] },
+					{
+						id: "1",
+						object: "chat.completion.chunk",
+						choices: [],
+						usage: { prompt_tokens: 100, completion_tokens: 5, total_tokens: 105 },
+					},
+				]) + "data: [DONE]\n\n",
+		})
+
+		requests[0].url.should.equal(
+			"/v1beta1/projects/test-project/locations/us-central1/endpoints/openapi/chat/completions",
+		)
+		requests[0].authorization!.should.equal("Bearer test-token")
+		requests[0].body.should.have.properties({ model: "meta/llama-3.3-70b-instruct-maas", stream: true })
+		requests[0].body.messages[0].should.deepEqual({ role: "system", content: "You are Cline" })
+		chunks.should.deepEqual([
+			{ type: "text", text: "Hello" },
+			{ type: "usage", inputTokens: 100, outputTokens: 5 },
+		])
+	})
+})
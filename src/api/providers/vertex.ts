@@ -1,24 +1,144 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { AnthropicVertex } from "@anthropic-ai/vertex-sdk"
+import { GenerateContentResponse } from "@google/generative-ai"
+import axios from "axios"
+import { GoogleAuth } from "google-auth-library"
+import OpenAI from "openai"
+import * as readline from "readline"
+import { Readable } from "stream"
 import { ApiHandler } from "../"
-import { ApiHandlerOptions, ModelInfo, vertexDefaultModelId, VertexModelId, vertexModels } from "../../shared/api"
+import {
+	ApiHandlerOptions,
+	getVertexPublisher,
+	ModelInfo,
+	vertexDefaultModelId,
+	VertexModelId,
+	vertexModels,
+} from "../../shared/api"
+import { catchApiErrors } from "../errors"
+import { convertAnthropicMessageToGemini } from "../transform/gemini-format"
+import { convertToOpenAiMessages } from "../transform/openai-format"
 import { ApiStream } from "../transform/stream"
+import { streamGeminiResponse } from "./gemini"
+
+// Google APIs respond with { error: { code, message, status } }
+function getGoogleErrorMessage(body: string): string {
+	try {
+		return JSON.parse(body).error?.message || body
+	} catch {
+		return body
+	}
+}
+
+// Gemini's response to streamGenerateContent with alt=sse has a JSON object per data line
+async function* readGeminiEvents(data: Readable): AsyncGenerator<GenerateContentResponse> {
+	for await (const line of readline.createInterface({ input: data, crlfDelay: Infinity })) {
+		if (line.startsWith("data:")) {
+			yield JSON.parse(line.slice("data:".length))
+		}
+	}
+}
 
 // https://docs.anthropic.com/en/api/claude-on-vertex-ai
+// Models of other publishers are called directly with an access token from the same Application Default Credentials.
 export class VertexHandler implements ApiHandler {
 	private options: ApiHandlerOptions
+	private auth: GoogleAuth
 	private client: AnthropicVertex
 
-	constructor(options: ApiHandlerOptions) {
+	constructor(
+		options: ApiHandlerOptions,
+		auth = new GoogleAuth({ scopes: "https://www.googleapis.com/auth/cloud-platform" }),
+	) {
 		this.options = options
+		this.auth = auth
 		this.client = new AnthropicVertex({
 			projectId: this.options.vertexProjectId,
 			// https://cloud.google.com/vertex-ai/generative-ai/docs/partner-models/use-claude#regions
 			region: this.options.vertexRegion,
+			baseURL: this.options.vertexBaseUrl ? `${this.options.vertexBaseUrl}/v1` : undefined,
+			googleAuth: this.auth,
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		switch (getVertexPublisher(this.getModel().id)) {
+			case "google":
+				return catchApiErrors(this.streamGeminiMessage(systemPrompt, messages))
+			case "meta":
+				return catchApiErrors(this.streamOpenAiCompatibleMessage(systemPrompt, messages))
+			default:
+				return catchApiErrors(this.streamClaudeMessage(systemPrompt, messages))
+		}
+	}
+
+	// https://cloud.google.com/vertex-ai/generative-ai/docs/model-reference/inference
+	private async *streamGeminiMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		const response = await axios.post(
+			`${this.getLocationUrl("v1")}/publishers/google/models/${this.getModel().id}:streamGenerateContent?alt=sse`,
+			{
+				contents: messages.map(convertAnthropicMessageToGemini),
+				systemInstruction: { parts: [{ text: systemPrompt }] },
+				generationConfig: {
+					temperature: 0,
+				},
+			},
+			{
+				headers: { Authorization: `Bearer ${await this.getAccessToken()}` },
+				responseType: "stream",
+				validateStatus: () => true,
+			},
+		)
+		if (response.status >= 400) {
+			let body = ""
+			for await (const data of response.data) {
+				body += data
+			}
+			const message = getGoogleErrorMessage(body) || `Vertex AI responded with status ${response.status}`
+			throw Object.assign(new Error(message), { status: response.status })
+		}
+		yield* streamGeminiResponse(readGeminiEvents(response.data))
+	}
+
+	// Llama models are served through Vertex AI's OpenAI compatible endpoint
+	// https://cloud.google.com/vertex-ai/generative-ai/docs/partner-models/llama
+	private async *streamOpenAiCompatibleMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+	): ApiStream {
+		// access tokens expire after an hour, so the client is created with a fresh one for each request
+		const client = new OpenAI({
+			baseURL: `${this.getLocationUrl("v1beta1")}/endpoints/openapi`,
+			apiKey: await this.getAccessToken(),
+		})
+		const { id, info } = this.getModel()
+		const stream = await client.chat.completions.create({
+			model: id,
+			messages: [{ role: "system", content: systemPrompt }, ...convertToOpenAiMessages(messages)],
+			max_tokens: info.maxTokens,
+			temperature: 0,
+			stream: true,
+			stream_options: { include_usage: true },
+		})
+		for await (const chunk of stream) {
+			const delta = chunk.choices[0]?.delta
+			if (delta?.content) {
+				yield {
+					type: "text",
+					text: delta.content,
+				}
+			}
+			if (chunk.usage) {
+				yield {
+					type: "usage",
+					inputTokens: chunk.usage.prompt_tokens || 0,
+					outputTokens: chunk.usage.completion_tokens || 0,
+				}
+			}
+		}
+	}
+
+	private async *streamClaudeMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
 		const stream = await this.client.messages.create({
 			model: this.getModel().id,
 			max_tokens: this.getModel().info.maxTokens || 8192,
@@ -75,6 +195,20 @@ export class VertexHandler implements ApiHandler {
 		}
 	}
 
+	private getLocationUrl(apiVersion: string): string {
+		const region = this.options.vertexRegion
+		const baseUrl = this.options.vertexBaseUrl || `https://${region}-aiplatform.googleapis.com`
+		return `${baseUrl}/${apiVersion}/projects/${this.options.vertexProjectId}/locations/${region}`
+	}
+
+	private async getAccessToken(): Promise<string> {
+		const token = await this.auth.getAccessToken()
+		if (!token) {
+			throw new Error("Could not get an access token from the Google Cloud credentials")
+		}
+		return token
+	}
+
 	getModel(): { id: VertexModelId; info: ModelInfo } {
 		const modelId = this.options.apiModelId
 		if (modelId && modelId in vertexModels) {
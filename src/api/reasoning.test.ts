@@ -0,0 +1,83 @@
+import { describe, it } from "mocha"
+import OpenAI from "openai"
+import "should"
+import { streamReasoningModelMessage } from "./reasoning"
+import { ApiStream, ApiStreamChunk } from "./transform/stream"
+
+const responseText =
+	"I'll check the tests first.\n\n<execute_command>\n<command>npm test</command>\n<requires_approval>false</requires_approval>\n</execute_command>"
+const usage = {
+	prompt_tokens: 1000,
+	completion_tokens: 600,
+	total_tokens: 1600,
+	completion_tokens_details: { reasoning_tokens: 500 },
+}
+
+// a client for a model that only answers without streaming, like o1-preview did
+function nonStreamingClient(requests: any[]): OpenAI {
+	return {
+		chat: {
+			completions: {
+				create: async (params: any) => {
+					requests.push(params)
+					if (params.stream) {
+						throw Object.assign(
+							new Error("Unsupported value: 'stream' does not support true with this model."),
+							{
+								status: 400,
+								param: "stream",
+							},
+						)
+					}
+					return {
+						id: "chatcmpl-1",
+						model: params.model,
+						choices: [
+							{ index: 0, message: { role: "assistant", content: responseText }, finish_reason: "stop" },
+						],
+						usage,
+					}
+				},
+			},
+		},
+	} as unknown as OpenAI
+}
+
+async function collect(stream: ApiStream): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("streamReasoningModelMessage", () => {
+	it("should send the system prompt as a user message and pass on tool calls from the response as XML", async () => {
+		const requests: any[] = []
+		const chunks = await collect(
+			streamReasoningModelMessage(
+				nonStreamingClient(requests),
+				"You are Cline",
+				[{ role: "user", content: "Run the tests" }],
+				{ model: "o1", reasoningEffort: "high" },
+			),
+		)
+
+		requests.should.have.length(2)
+		requests[1].should.have.properties({ model: "o1", stream: false, reasoning_effort: "high" })
+		requests[1].messages[0].role.should.equal("user")
+		requests[1].messages[0].content.should.containEql("You are Cline")
+
+		chunks[0].should.deepEqual({
+			type: "text",
+			text: "I'll check the tests first.\n\n<execute_command>\n<command>\nnpm test\n</command>\n<requires_approval>\nfalse\n</requires_approval>\n</execute_command>",
+		})
+		chunks[1].should.deepEqual({
+			type: "usage",
+			inputTokens: 1000,
+			outputTokens: 100,
+			cacheReadTokens: undefined,
+			reasoningTokens: 500,
+		})
+	})
+})
@@ -0,0 +1,130 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import delay from "delay"
+import OpenAI from "openai"
+import { ReasoningEffort } from "../shared/api"
+import { getCacheInfo } from "../utils/prompt-cache"
+import { getApiErrorMessage, getErrorStatus } from "./errors"
+import { convertO1ResponseToAnthropicMessage, convertToO1Messages } from "./transform/o1-format"
+import { convertToOpenAiMessages } from "./transform/openai-format"
+import { ApiStream } from "./transform/stream"
+import { formatToolUseAsXml } from "./transform/xml-tool-format"
+
+// most errors and short answers come back right away, so progress is only reported for responses that take longer
+const PROGRESS_DELAY_MS = 2_000
+
+export interface ReasoningModelRequest {
+	model: string
+	reasoningEffort?: ReasoningEffort
+	maxTokens?: number // includes the reasoning tokens, the model's maximum when unset
+}
+
+type ReasoningModelParams = Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, "stream"> & {
+	reasoning_effort?: ReasoningEffort // not in this version of the SDK's types yet
+}
+
+/**
+ * o-series models reason before answering and don't support system prompts or temperature, so they get the o1 format instead of the usual request.
+ * The system prompt is sent as the first user message with instructions to put tool calls at the end, and the complete response is parsed into text and tool calls.
+ * Tool calls are passed on in the XML tool use format, so they're kept in the conversation history as text the o1 format can read back.
+ * Nothing can be shown until the response is complete, so a progress chunk is sent while the model reasons.
+ */
+export async function* streamReasoningModelMessage(
+	client: OpenAI,
+	systemPrompt: string,
+	messages: Anthropic.Messages.MessageParam[],
+	request: ReasoningModelRequest,
+): ApiStream {
+	const params: ReasoningModelParams = {
+		model: request.model,
+		messages: convertToO1Messages(convertToOpenAiMessages(messages), systemPrompt),
+		max_completion_tokens: request.maxTokens && request.maxTokens > 0 ? request.maxTokens : undefined,
+		// o1-mini and o1-preview reject it, so it's only sent when set
+		reasoning_effort: request.reasoningEffort,
+	}
+	const startedAt = Date.now()
+	const response = createCompletion(client, params)
+	const didRespond = await Promise.race([
+		response.then(
+			() => true,
+			() => true,
+		),
+		delay(PROGRESS_DELAY_MS).then(() => false),
+	])
+	if (!didRespond) {
+		yield { type: "reasoning_progress", startedAt }
+	}
+	const completion = await response
+
+	const message = convertO1ResponseToAnthropicMessage(completion)
+	const text = message.content
+		.map((block) => {
+			if (block.type === "tool_use") {
+				return formatToolUseAsXml(block.name, block.input as Record<string, string>)
+			}
+			return block.type === "text" ? block.text : ""
+		})
+		.filter((text) => text)
+		.join("\n\n")
+	if (text) {
+		yield { type: "text", text }
+	}
+	// the reasoning isn't returned, only how many tokens it took, which completion_tokens includes
+	const cacheReadTokens = getCacheInfo(completion)
+	const reasoningTokens = completion.usage?.completion_tokens_details?.reasoning_tokens || 0
+	yield {
+		type: "usage",
+		inputTokens: (completion.usage?.prompt_tokens || 0) - cacheReadTokens,
+		outputTokens: (completion.usage?.completion_tokens || 0) - reasoningTokens,
+		cacheReadTokens: cacheReadTokens || undefined,
+		reasoningTokens: reasoningTokens || undefined,
+	}
+}
+
+// streaming keeps the connection alive while the model reasons, models that can't stream are sent the request again without it
+async function createCompletion(
+	client: OpenAI,
+	params: ReasoningModelParams,
+): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+	let stream
+	try {
+		stream = await client.chat.completions.create({
+			...params,
+			stream: true,
+			stream_options: { include_usage: true },
+		})
+	} catch (error) {
+		if (
+			getErrorStatus(error) === 400 &&
+			(error?.param === "stream" || /\bstream\b/i.test(getApiErrorMessage(error)))
+		) {
+			return client.chat.completions.create({ ...params, stream: false })
+		}
+		throw error
+	}
+
+	let id = ""
+	let content = ""
+	let finishReason: OpenAI.Chat.Completions.ChatCompletion.Choice["finish_reason"] = "stop"
+	let usage: OpenAI.CompletionUsage | undefined
+	for await (const chunk of stream) {
+		id ||= chunk.id
+		content += chunk.choices[0]?.delta?.content ?? ""
+		finishReason = chunk.choices[0]?.finish_reason ?? finishReason
+		usage = chunk.usage ?? usage
+	}
+	return {
+		id,
+		object: "chat.completion",
+		created: Math.floor(Date.now() / 1000),
+		model: params.model,
+		choices: [
+			{
+				index: 0,
+				message: { role: "assistant", content, refusal: null },
+				finish_reason: finishReason,
+				logprobs: null,
+			},
+		],
+		usage,
+	}
+}
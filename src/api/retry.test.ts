@@ -0,0 +1,108 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import OpenAI from "openai"
+import should from "should"
+import * as http from "http"
+import { AddressInfo } from "net"
+import { classifyApiError, getRetryAfterDelay } from "./errors"
+import { classifyRetryableError, getRetryDelay, MAX_API_RETRIES } from "./retry"
+
+// an error response as the openai sdk throws it, headers are a plain object like it passes them
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+	OpenAI.APIError.generate(status, { error: { message: `${status} error` } }, undefined, headers)
+
+// streams the start of a message and then an overloaded_error event, as anthropic does when it gets overloaded mid-response
+async function catchAnthropicErrorEvent(): Promise<unknown> {
+	const server = http.createServer((_req, res) => {
+		res.writeHead(200, { "Content-Type": "text/event-stream" })
+		const events = [
+			{
+				type: "message_start",
+				message: {
+					id: "msg_1",
+					type: "message",
+					role: "assistant",
+					content: [],
+					model: "claude-3-5-sonnet-20241022",
+					usage: { input_tokens: 10, output_tokens: 1 },
+				},
+			},
+			{ type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+		]
+		res.end(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(""))
+	})
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+	try {
+		const client = new Anthropic({
+			apiKey: "test-key",
+			baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+			maxRetries: 0,
+		})
+		const stream = await client.messages.create({
+			model: "claude-3-5-sonnet-20241022",
+			max_tokens: 1024,
+			messages: [{ role: "user", content: "Hi" }],
+			stream: true,
+		})
+		for await (const _ of stream) {
+		}
+		throw new Error("the stream should have failed")
+	} catch (error) {
+		return error
+	} finally {
+		server.close()
+	}
+}
+
+describe("API retries", () => {
+	it("should only retry transient errors", () => {
+		classifyRetryableError(apiError(429))!.should.equal("rate_limit")
+		classifyRetryableError(apiError(529))!.should.equal("overloaded")
+		classifyRetryableError(apiError(503))!.should.equal("server")
+		const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })
+		classifyRetryableError(new OpenAI.APIConnectionError({ cause: reset }))!.should.equal("network")
+		classifyRetryableError(new Anthropic.APIConnectionTimeoutError())!.should.equal("network")
+		getRetryDelay(new OpenAI.APIConnectionTimeoutError(), 0, () => 1)!.should.equal(2_000)
+		should.not.exist(classifyRetryableError(apiError(400)))
+		should.not.exist(classifyRetryableError(apiError(401)))
+	})
+
+	it("should retry overloaded errors in an anthropic stream", async () => {
+		const error = await catchAnthropicErrorEvent()
+		classifyApiError(error).should.equal("server")
+		classifyRetryableError(error)!.should.equal("overloaded")
+		getRetryDelay(error, 0, () => 1)!.should.equal(2_000)
+	})
+
+	it("should honor retry-after headers", () => {
+		getRetryAfterDelay(apiError(429, { "retry-after": "7" }))!.should.equal(7_000)
+		getRetryAfterDelay(apiError(429, { "retry-after-ms": "250" }))!.should.equal(250)
+		const now = Date.parse("2024-01-01T00:00:00Z")
+		getRetryAfterDelay(apiError(429, { "retry-after": "Mon, 01 Jan 2024 00:00:30 GMT" }), now)!.should.equal(30_000)
+	})
+
+	it("should wait for the used up rate limit to reset", () => {
+		const error = apiError(429, {
+			"x-ratelimit-remaining-requests": "12",
+			"x-ratelimit-reset-requests": "1s",
+			"x-ratelimit-remaining-tokens": "0",
+			"x-ratelimit-reset-tokens": "1m30s",
+		})
+		getRetryAfterDelay(error)!.should.equal(90_000)
+		getRetryDelay(error, 0)!.should.equal(90_000)
+	})
+
+	it("should back off exponentially with jitter", () => {
+		const error = apiError(503)
+		getRetryDelay(error, 0, () => 0)!.should.equal(1_000)
+		getRetryDelay(error, 0, () => 1)!.should.equal(2_000)
+		getRetryDelay(error, 3, () => 1)!.should.equal(16_000)
+		getRetryDelay(error, 4, () => 1)!.should.equal(32_000)
+	})
+
+	it("should give up after the last attempt or on long rate limit resets", () => {
+		should.not.exist(getRetryDelay(apiError(503), MAX_API_RETRIES))
+		should.not.exist(getRetryDelay(apiError(429, { "retry-after": "3600" }), 0))
+		should.not.exist(getRetryDelay(apiError(400), 0))
+	})
+})
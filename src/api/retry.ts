@@ -0,0 +1,43 @@
+import { getApiErrorKind, getErrorStatus, getRetryAfterDelay, isOverloadedError } from "./errors"
+
+export const MAX_API_RETRIES = 5
+const BASE_RETRY_DELAY_MS = 2_000
+const MAX_BACKOFF_DELAY_MS = 60_000
+// a rate limit that resets further away than this is left for the user to decide on
+const MAX_RETRY_DELAY_MS = 5 * 60_000
+
+export type RetryableErrorKind = "rate_limit" | "overloaded" | "server" | "network"
+
+/**
+ * Whether an error is transient, i.e. the same request is likely to succeed if sent again a bit later.
+ */
+export function classifyRetryableError(error: any): RetryableErrorKind | undefined {
+	switch (getApiErrorKind(error)) {
+		case "rate_limit":
+			return "rate_limit"
+		case "server":
+			if (isOverloadedError(error)) {
+				return "overloaded"
+			}
+			return getErrorStatus(error) === undefined ? "network" : "server"
+		default:
+			// quota, auth and request errors fail the same way when retried
+			return undefined
+	}
+}
+
+/**
+ * How long to wait before retrying a failed request automatically, or undefined if it shouldn't be retried.
+ * Waits as long as the provider asks for, otherwise backs off exponentially with jitter so parallel tasks don't retry in lockstep.
+ */
+export function getRetryDelay(error: any, attempt: number, random: () => number = Math.random): number | undefined {
+	if (attempt >= MAX_API_RETRIES || !classifyRetryableError(error)) {
+		return undefined
+	}
+	const retryAfter = getRetryAfterDelay(error)
+	if (retryAfter !== undefined) {
+		return retryAfter <= MAX_RETRY_DELAY_MS ? retryAfter : undefined
+	}
+	const backoff = Math.min(MAX_BACKOFF_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt)
+	return Math.round(backoff / 2 + (random() * backoff) / 2)
+}
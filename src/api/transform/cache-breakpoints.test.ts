@@ -0,0 +1,64 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { addCacheControl, getCacheBreakpointCoverage, placeCacheBreakpoints } from "./cache-breakpoints"
+
+describe("Cache Breakpoints", () => {
+	const messages: Anthropic.Messages.MessageParam[] = [
+		{ role: "user", content: "t".repeat(4_000) },
+		{ role: "assistant", content: "a".repeat(400) },
+		{ role: "user", content: "u".repeat(800) },
+		{ role: "assistant", content: "a".repeat(400) },
+		{ role: "user", content: "u".repeat(800) },
+	]
+
+	it("should cache the system prompt and the last two user messages by default", () => {
+		const placement = placeCacheBreakpoints(messages)
+		placement.systemPrompt.should.be.true()
+		placement.messages.should.deepEqual([
+			{ index: 2, position: "tail" },
+			{ index: 4, position: "tail" },
+		])
+	})
+
+	it("should not use more than four breakpoints", () => {
+		const placement = placeCacheBreakpoints(messages, { systemPrompt: true, taskMessage: true, tailMessages: 5 })
+		placement.messages.should.deepEqual([
+			{ index: 0, position: "task" },
+			{ index: 2, position: "tail" },
+			{ index: 4, position: "tail" },
+		])
+	})
+
+	it("should not place a tail breakpoint on the task message twice", () => {
+		const placement = placeCacheBreakpoints(messages.slice(0, 1), {
+			systemPrompt: true,
+			taskMessage: true,
+			tailMessages: 2,
+		})
+		placement.messages.should.deepEqual([{ index: 0, position: "task" }])
+	})
+
+	it("should report the tokens covered by each breakpoint", () => {
+		const placement = placeCacheBreakpoints(messages, { systemPrompt: true, taskMessage: true, tailMessages: 1 })
+		getCacheBreakpointCoverage("s".repeat(2_000), messages, placement).should.deepEqual([
+			{ position: "system", tokens: 500 },
+			{ position: "task", messageIndex: 0, tokens: 1_000 },
+			{ position: "tail", messageIndex: 4, tokens: 600 },
+		])
+	})
+
+	it("should mark the last content block of a message", () => {
+		const marked = addCacheControl({
+			role: "user",
+			content: [
+				{ type: "text", text: "task" },
+				{ type: "text", text: "environment_details" },
+			],
+		})
+		marked.content.should.deepEqual([
+			{ type: "text", text: "task" },
+			{ type: "text", text: "environment_details", cache_control: { type: "ephemeral" } },
+		])
+	})
+})
@@ -0,0 +1,91 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { CacheBreakpointPolicy, defaultCacheBreakpointPolicy } from "../../shared/api"
+import { ClineCacheBreakpoint } from "../../shared/ExtensionMessage"
+import { estimateTokens } from "../../utils/prompt-cache-simulator"
+
+// https://docs.anthropic.com/en/docs/build-with-claude/prompt-caching
+const MAX_CACHE_BREAKPOINTS = 4
+
+export interface CacheBreakpointPlacement {
+	systemPrompt: boolean
+	messages: { index: number; position: "task" | "tail" }[] // in message order
+}
+
+/**
+ * Decides which parts of the request get a cache_control breakpoint according to the policy.
+ * Tail breakpoints go on the latest user messages: the last one is cached for the next request, and the one before it lets the server know the last message to read from the cache for the current request.
+ */
+export function placeCacheBreakpoints(
+	messages: Anthropic.Messages.MessageParam[],
+	policy: CacheBreakpointPolicy = defaultCacheBreakpointPolicy,
+): CacheBreakpointPlacement {
+	let remaining = MAX_CACHE_BREAKPOINTS
+	if (policy.systemPrompt) {
+		remaining--
+	}
+
+	const placed: CacheBreakpointPlacement["messages"] = []
+	if (policy.taskMessage && messages[0]?.role === "user") {
+		placed.push({ index: 0, position: "task" })
+		remaining--
+	}
+
+	const tailCount = Math.max(0, Math.min(policy.tailMessages, remaining))
+	if (tailCount > 0) {
+		const userIndices = messages.reduce(
+			(acc, message, index) => (message.role === "user" && index !== placed[0]?.index ? [...acc, index] : acc),
+			[] as number[],
+		)
+		for (const index of userIndices.slice(-tailCount)) {
+			placed.push({ index, position: "tail" })
+		}
+	}
+
+	return { systemPrompt: policy.systemPrompt, messages: placed }
+}
+
+/**
+ * Estimates how many tokens each breakpoint covers, i.e. the tokens between it and the previous breakpoint (or the start of the request).
+ */
+export function getCacheBreakpointCoverage(
+	systemPrompt: string,
+	messages: Anthropic.Messages.MessageParam[],
+	placement: CacheBreakpointPlacement,
+): ClineCacheBreakpoint[] {
+	const breakpoints: ClineCacheBreakpoint[] = []
+	let tokens = estimateTokens(systemPrompt)
+	if (placement.systemPrompt) {
+		breakpoints.push({ position: "system", tokens })
+		tokens = 0
+	}
+	let next = 0
+	messages.forEach((message, index) => {
+		tokens += estimateTokens(message.content)
+		const breakpoint = placement.messages[next]
+		if (breakpoint?.index === index) {
+			breakpoints.push({ position: breakpoint.position, messageIndex: index, tokens })
+			tokens = 0
+			next++
+		}
+	})
+	return breakpoints
+}
+
+/**
+ * Marks the last content block of a message as a cache breakpoint.
+ */
+export function addCacheControl(
+	message: Anthropic.Messages.MessageParam,
+): Anthropic.Beta.PromptCaching.PromptCachingBetaMessageParam {
+	return {
+		...message,
+		content:
+			typeof message.content === "string"
+				? [{ type: "text", text: message.content, cache_control: { type: "ephemeral" } }]
+				: message.content.map((content, contentIndex) =>
+						contentIndex === message.content.length - 1
+							? { ...content, cache_control: { type: "ephemeral" } }
+							: content,
+					),
+	}
+}
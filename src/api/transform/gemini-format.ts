@@ -1,7 +1,6 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import {
 	Content,
-	EnhancedGenerateContentResponse,
 	FunctionCallPart,
 	FunctionDeclaration,
 	FunctionResponsePart,
@@ -119,77 +118,3 @@ export function convertAnthropicToolToGemini(tool: Anthropic.Messages.Tool): Fun
 		},
 	}
 }
-
-/*
-It looks like gemini likes to double escape certain characters when writing file contents: https://discuss.ai.google.dev/t/function-call-string-property-is-double-escaped/37867
-*/
-export function unescapeGeminiContent(content: string) {
-	return content
-		.replace(/\\n/g, "\n")
-		.replace(/\\'/g, "'")
-		.replace(/\\"/g, '"')
-		.replace(/\\r/g, "\r")
-		.replace(/\\t/g, "\t")
-}
-
-export function convertGeminiResponseToAnthropic(
-	response: EnhancedGenerateContentResponse,
-): Anthropic.Messages.Message {
-	const content: Anthropic.Messages.ContentBlock[] = []
-
-	// Add the main text response
-	const text = response.text()
-	if (text) {
-		content.push({ type: "text", text })
-	}
-
-	// Add function calls as tool_use blocks
-	const functionCalls = response.functionCalls()
-	if (functionCalls) {
-		functionCalls.forEach((call, index) => {
-			if ("content" in call.args && typeof call.args.content === "string") {
-				call.args.content = unescapeGeminiContent(call.args.content)
-			}
-			content.push({
-				type: "tool_use",
-				id: `${call.name}-${index}-${Date.now()}`,
-				name: call.name,
-				input: call.args,
-			})
-		})
-	}
-
-	// Determine stop reason
-	let stop_reason: Anthropic.Messages.Message["stop_reason"] = null
-	const finishReason = response.candidates?.[0]?.finishReason
-	if (finishReason) {
-		switch (finishReason) {
-			case "STOP":
-				stop_reason = "end_turn"
-				break
-			case "MAX_TOKENS":
-				stop_reason = "max_tokens"
-				break
-			case "SAFETY":
-			case "RECITATION":
-			case "OTHER":
-				stop_reason = "stop_sequence"
-				break
-			// Add more cases if needed
-		}
-	}
-
-	return {
-		id: `msg_${Date.now()}`, // Generate a unique ID
-		type: "message",
-		role: "assistant",
-		content,
-		model: "",
-		stop_reason,
-		stop_sequence: null, // Gemini doesn't provide this information
-		usage: {
-			input_tokens: response.usageMetadata?.promptTokenCount ?? 0,
-			output_tokens: response.usageMetadata?.candidatesTokenCount ?? 0,
-		},
-	}
-}
@@ -37,6 +37,7 @@ Remember:
 1. execute_command:
 <execute_command>
 <command>Your command here</command>
+<requires_approval>true or false</requires_approval>
 </execute_command>
 Description: Execute a CLI command on the system. Use this when you need to perform system operations or run specific commands to accomplish any step in the user's task. You must tailor your command to the user's system and provide a clear explanation of what the command does. Prefer to execute complex CLI commands over creating executable scripts, as they are more flexible and easier to run. Commands will be executed in the current working directory.
 
@@ -57,7 +58,7 @@ Description: Lists definition names (classes, functions, methods, etc.) used in
 <search_files>
 <path>Directory path here</path>
 <regex>Your regex pattern here</regex>
-<filePattern>Optional file pattern here</filePattern>
+<file_pattern>Optional file pattern here</file_pattern>
 </search_files>
 Description: Perform a regex search across files in a specified directory, providing context-rich results. This tool searches for patterns or specific content across multiple files, displaying each match with encapsulating context.
 
@@ -101,6 +102,7 @@ Let's run the test suite for our project. This will help us ensure that all our
 
 <execute_command>
 <command>npm test</command>
+<requires_approval>false</requires_approval>
 </execute_command>
 
 Example 2: Using multiple tools
@@ -233,6 +235,7 @@ interface ToolCall {
 	tool_input: Record<string, string>
 }
 
+// every tool in the system prompt, since text after the first tool call is only kept if it's a tool call
 const toolNames = [
 	"execute_command",
 	"list_files",
@@ -240,6 +243,10 @@ const toolNames = [
 	"search_files",
 	"read_file",
 	"write_to_file",
+	"replace_in_file",
+	"browser_action",
+	"use_mcp_tool",
+	"access_mcp_resource",
 	"ask_followup_question",
 	"attempt_completion",
 ]
@@ -269,7 +276,8 @@ function parseToolCalls(toolCallsText: string): ToolCall[] {
 	let remainingText = toolCallsText
 
 	while (remainingText.length > 0) {
-		const toolMatch = toolNames.find((tool) => new RegExp(`<${tool}`, "i").test(remainingText))
+		// the tool call that comes first, so calls are kept in order
+		const toolMatch = remainingText.match(new RegExp(`<(${toolNames.join("|")})`))?.[1]
 
 		if (!toolMatch) {
 			break // No more tool calls found
@@ -338,7 +346,8 @@ function validateToolInput(toolName: string, tool_input: Record<string, string>)
 		case "attempt_completion":
 			return "result" in tool_input
 		default:
-			return false
+			// the parameters of the other tools are checked when they're used
+			return true
 	}
 }
 
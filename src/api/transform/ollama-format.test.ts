@@ -0,0 +1,34 @@
+import { describe, it } from "mocha"
+import "should"
+import { convertToOllamaMessages } from "./ollama-format"
+
+describe("Ollama Format", () => {
+	it("should pass images separately from the text", () => {
+		const messages = convertToOllamaMessages("You are Cline", [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "What is in this image?" },
+					{ type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo" } },
+				],
+			},
+		])
+		messages.should.deepEqual([
+			{ role: "system", content: "You are Cline" },
+			{ role: "user", content: "What is in this image?", images: ["iVBORw0KGgo"] },
+		])
+	})
+
+	it("should parse tool call arguments into objects", () => {
+		const messages = convertToOllamaMessages("You are Cline", [
+			{
+				role: "assistant",
+				content: [{ type: "tool_use", id: "call_0", name: "read_file", input: { path: "src/index.ts" } }],
+			},
+		])
+		messages[1].should.have.properties({
+			role: "assistant",
+			tool_calls: [{ function: { name: "read_file", arguments: { path: "src/index.ts" } } }],
+		})
+	})
+})
@@ -0,0 +1,54 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import OpenAI from "openai"
+import { convertToOpenAiMessages } from "./openai-format"
+
+// https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-chat-completion
+export interface OllamaMessage {
+	role: "system" | "user" | "assistant" | "tool"
+	content: string
+	images?: string[] // base64 encoded, without the data URL prefix
+	tool_calls?: { function: { name: string; arguments: Record<string, unknown> } }[]
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+	try {
+		return JSON.parse(args)
+	} catch {
+		return {}
+	}
+}
+
+/**
+ * The native API is close to the OpenAI format, except that images are passed separately from the text and tool call arguments are objects.
+ */
+export function convertToOllamaMessages(
+	systemPrompt: string,
+	anthropicMessages: Anthropic.Messages.MessageParam[],
+): OllamaMessage[] {
+	const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+		{ role: "system", content: systemPrompt },
+		...convertToOpenAiMessages(anthropicMessages),
+	]
+	return openAiMessages.map((message) => {
+		const parts = typeof message.content === "string" || !message.content ? [] : message.content
+		const images = parts.flatMap((part) =>
+			part.type === "image_url" ? [part.image_url.url.replace(/^data:[^;]+;base64,/, "")] : [],
+		)
+		const ollamaMessage: OllamaMessage = {
+			role: message.role === "function" ? "tool" : message.role,
+			content:
+				typeof message.content === "string"
+					? message.content
+					: parts.flatMap((part) => (part.type === "text" ? [part.text] : [])).join("\n\n"),
+		}
+		if (images.length > 0) {
+			ollamaMessage.images = images
+		}
+		if (message.role === "assistant" && message.tool_calls?.length) {
+			ollamaMessage.tool_calls = message.tool_calls.map((toolCall) => ({
+				function: { name: toolCall.function.name, arguments: parseArguments(toolCall.function.arguments) },
+			}))
+		}
+		return ollamaMessage
+	})
+}
@@ -1,5 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import OpenAI from "openai"
+import { ApiToolDefinition } from "../index"
+import { ApiStreamToolCallChunk } from "./stream"
 
 export function convertToOpenAiMessages(
 	anthropicMessages: Anthropic.Messages.MessageParam[],
@@ -201,3 +203,33 @@ export function convertToAnthropicMessage(
 	}
 	return anthropicMessage
 }
+
+export function convertToOpenAiTools(tools: ApiToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] {
+	return tools.map((tool) => ({
+		type: "function",
+		function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+	}))
+}
+
+/**
+ * Collects streamed tool call fragments by their index. Only the first fragment of a call has its id and name, the arguments JSON is split across all of them.
+ */
+export function accumulateToolCallDeltas(
+	toolCalls: ApiStreamToolCallChunk[],
+	deltas: OpenAI.Chat.ChatCompletionChunk.Choice.Delta.ToolCall[] = [],
+) {
+	for (const delta of deltas) {
+		if (!toolCalls[delta.index]) {
+			// some local servers leave out the id
+			toolCalls[delta.index] = { type: "tool_call", id: `call_${delta.index}`, name: "", arguments: "" }
+		}
+		const toolCall = toolCalls[delta.index]
+		if (delta.id) {
+			toolCall.id = delta.id
+		}
+		if (delta.function?.name) {
+			toolCall.name = delta.function.name
+		}
+		toolCall.arguments += delta.function?.arguments ?? ""
+	}
+}
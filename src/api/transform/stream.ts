@@ -1,16 +1,85 @@
+import { ApiProvider } from "../../shared/api"
+import { ApiErrorKind } from "../errors"
+import { ClineApiProviderFailure, ClineCacheBreakpoint } from "../../shared/ExtensionMessage"
+
 export type ApiStream = AsyncGenerator<ApiStreamChunk>
-export type ApiStreamChunk = ApiStreamTextChunk | ApiStreamUsageChunk
+export type ApiStreamChunk =
+	| ApiStreamTextChunk
+	| ApiStreamReasoningChunk
+	| ApiStreamReasoningProgressChunk
+	| ApiStreamToolCallChunk
+	| ApiStreamUsageChunk
+	| ApiStreamCacheBreakpointsChunk
+	| ApiStreamProviderChunk
+	| ApiStreamErrorChunk
+
+// chunks about the request rather than the response, so a request that fails after them still failed before anything was streamed
+// e.g. anthropic reports the usage of message_start before an overloaded error event
+export function isMetadataChunk(chunk: ApiStreamChunk): boolean {
+	switch (chunk.type) {
+		case "usage":
+		case "cache_breakpoints":
+		case "provider":
+		case "reasoning_progress":
+			return true
+		default:
+			return false
+	}
+}
 
 export interface ApiStreamTextChunk {
 	type: "text"
 	text: string
 }
 
+// the model's reasoning before its answer, shown to the user but not sent back to the model
+export interface ApiStreamReasoningChunk {
+	type: "reasoning"
+	reasoning: string
+}
+
+// sent while a reasoning model thinks before a response that can only be shown once it's complete
+export interface ApiStreamReasoningProgressChunk {
+	type: "reasoning_progress"
+	startedAt: number
+}
+
+// a complete native tool call, only sent when tools were passed to createMessage
+export interface ApiStreamToolCallChunk {
+	type: "tool_call"
+	id: string
+	name: string
+	arguments: string // JSON, may be invalid if the model made a mistake
+}
+
 export interface ApiStreamUsageChunk {
 	type: "usage"
 	inputTokens: number
-	outputTokens: number
+	outputTokens: number // excludes reasoning tokens
+	reasoningTokens?: number
 	cacheWriteTokens?: number
 	cacheReadTokens?: number
 	totalCost?: number // openrouter
 }
+
+export interface ApiStreamCacheBreakpointsChunk {
+	type: "cache_breakpoints"
+	breakpoints: ClineCacheBreakpoint[]
+}
+
+// sent by FailoverApiHandler before the response, naming the provider in the chain that is serving the request
+export interface ApiStreamProviderChunk {
+	type: "provider"
+	apiProvider: ApiProvider
+	modelId: string
+	failures: ClineApiProviderFailure[]
+}
+
+// the provider rejected the request or the stream broke off, always the last chunk of a stream
+export interface ApiStreamErrorChunk {
+	type: "error"
+	kind: ApiErrorKind
+	message: string
+	status?: number
+	retryAfter?: number // ms the provider asked to wait before retrying
+}
@@ -0,0 +1,54 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+/**
+ * Replaces tool use and tool result blocks with text in the XML tool use format, since APIs reject conversations with tool uses but no tool schema.
+ * Needed for conversations from before the XML tool use format, and for native tool call conversations continued by a provider without native tool calls.
+ */
+export function convertToolBlocksToText(
+	messages: Anthropic.Messages.MessageParam[],
+): Anthropic.Messages.MessageParam[] {
+	const toolNames = new Map<string, string>()
+	for (const message of messages) {
+		if (Array.isArray(message.content)) {
+			for (const block of message.content) {
+				if (block.type === "tool_use") {
+					toolNames.set(block.id, block.name)
+				}
+			}
+		}
+	}
+	return messages.map((message) => {
+		if (!Array.isArray(message.content)) {
+			return message
+		}
+		const content = message.content.map((block) => {
+			if (block.type === "tool_use") {
+				// it's important we convert to the XML tool use format so the model doesn't get confused about how to invoke tools
+				return {
+					type: "text",
+					text: formatToolUseAsXml(block.name, block.input as Record<string, string>),
+				} as Anthropic.Messages.TextBlockParam
+			} else if (block.type === "tool_result") {
+				// images are removed
+				const contentAsTextBlocks = Array.isArray(block.content)
+					? block.content.filter((item) => item.type === "text")
+					: [{ type: "text", text: block.content }]
+				const textContent = contentAsTextBlocks.map((item) => item.text).join("\n\n")
+				const toolName = toolNames.get(block.tool_use_id) ?? "Unknown Tool"
+				return {
+					type: "text",
+					text: `[${toolName} Result]\n\n${textContent}`,
+				} as Anthropic.Messages.TextBlockParam
+			}
+			return block
+		})
+		return { ...message, content }
+	})
+}
+
+export function formatToolUseAsXml(name: string, input: Record<string, string>): string {
+	const inputAsXml = Object.entries(input)
+		.map(([key, value]) => `<${key}>\n${value}\n</${key}>`)
+		.join("\n")
+	return `<${name}>\n${inputAsXml}\n</${name}>`
+}
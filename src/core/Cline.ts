@@ -8,9 +8,12 @@ import * as path from "path"
 import { serializeError } from "serialize-error"
 import * as vscode from "vscode"
 import { ApiHandler, buildApiHandler } from "../api"
-import { ApiStream } from "../api/transform/stream"
+import { ApiStreamError, getApiErrorKind } from "../api/errors"
+import { getRetryDelay, MAX_API_RETRIES } from "../api/retry"
+import { ApiStream, ApiStreamChunk, ApiStreamToolCallChunk, isMetadataChunk } from "../api/transform/stream"
+import { convertToolBlocksToText } from "../api/transform/xml-tool-format"
 import { DiffViewProvider } from "../integrations/editor/DiffViewProvider"
-import { findToolName, formatContentBlockToMarkdown } from "../integrations/misc/export-markdown"
+import { formatContentBlockToMarkdown } from "../integrations/misc/export-markdown"
 import { extractTextFromFile } from "../integrations/misc/extract-text"
 import { TerminalManager } from "../integrations/terminal/TerminalManager"
 import { BrowserSession } from "../services/browser/BrowserSession"
@@ -18,36 +21,56 @@ import { UrlContentFetcher } from "../services/browser/UrlContentFetcher"
 import { listFiles } from "../services/glob/list-files"
 import { regexSearchFiles } from "../services/ripgrep"
 import { parseSourceCodeForDefinitionsTopLevel } from "../services/tree-sitter"
-import { ApiConfiguration } from "../shared/api"
-import { findLastIndex } from "../shared/array"
-import { AutoApprovalSettings } from "../shared/AutoApprovalSettings"
+import { ApiConfiguration, ApiProvider, nativeToolCallsInstructions, usesNativeToolCalls } from "../shared/api"
+import { findLast, findLastIndex } from "../shared/array"
+import { AutoApprovalSettings, DEFAULT_BUDGET_WARNING_THRESHOLD } from "../shared/AutoApprovalSettings"
 import { combineApiRequests } from "../shared/combineApiRequests"
 import { combineCommandSequences, COMMAND_REQ_APP_STRING } from "../shared/combineCommandSequences"
 import {
 	BrowserAction,
 	BrowserActionResult,
 	browserActions,
+	ClineApiProvider,
+	ClineApiProviderFailure,
 	ClineApiReqCancelReason,
 	ClineApiReqInfo,
 	ClineAsk,
 	ClineAskUseMcpServer,
+	ClineBudgetLimit,
+	ClineCacheBreakpoint,
+	ClineContextTruncation,
 	ClineMessage,
+	ClinePromptCacheBreak,
+	ClinePromptCacheStatus,
 	ClineSay,
 	ClineSayBrowserAction,
 	ClineSayTool,
+	TruncationStrategyName,
 } from "../shared/ExtensionMessage"
 import { getApiMetrics } from "../shared/getApiMetrics"
 import { HistoryItem } from "../shared/HistoryItem"
 import { ClineAskResponse } from "../shared/WebviewMessage"
-import { calculateApiCost } from "../utils/cost"
+import { calculateApiCost, estimateNextRequestCost } from "../utils/cost"
 import { fileExistsAtPath } from "../utils/fs"
 import { arePathsEqual, getReadablePath } from "../utils/path"
-import { AssistantMessageContent, parseAssistantMessage, ToolParamName, ToolUseName } from "./assistant-message"
+import { getPromptCacheRule, getPromptCacheTtl } from "../utils/prompt-cache"
+import { estimateTokens } from "../utils/prompt-cache-simulator"
+import {
+	AssistantMessageContent,
+	parseAssistantMessage,
+	parseToolCall,
+	ToolParamName,
+	ToolUseName,
+	toToolResultBlocks,
+	toToolUseBlock,
+} from "./assistant-message"
 import { constructNewFileContent } from "./assistant-message/diff"
 import { parseMentions } from "./mentions"
+import { findPromptCacheBreak, fingerprintPrompt, PromptFingerprint } from "./prompt-fingerprint"
 import { formatResponse } from "./prompts/responses"
 import { addUserInstructions, SYSTEM_PROMPT } from "./prompts/system"
-import { truncateHalfConversation } from "./sliding-window"
+import { nativeToolDefinitions } from "./prompts/tools"
+import { getTruncationStrategy, halfTruncationStrategy } from "./sliding-window"
 import { ClineProvider, GlobalFileNames } from "./webview/ClineProvider"
 import { showSystemNotification } from "../integrations/notifications"
 import { removeInvalidChars } from "../utils/string"
@@ -64,11 +87,16 @@ type UserContent = Array<
 export class Cline {
 	readonly taskId: string
 	api: ApiHandler
+	apiProvider?: ApiProvider
+	nativeToolCalls: boolean
+	apiConfigurationProfile?: string
 	private terminalManager: TerminalManager
 	private urlContentFetcher: UrlContentFetcher
 	private browserSession: BrowserSession
 	private didEditFile: boolean = false
 	customInstructions?: string
+	truncationStrategy?: TruncationStrategyName
+	condenseOnCacheExpiry?: boolean
 	autoApprovalSettings: AutoApprovalSettings
 	apiConversationHistory: Anthropic.MessageParam[] = []
 	clineMessages: ClineMessage[] = []
@@ -78,11 +106,16 @@ export class Cline {
 	private lastMessageTs?: number
 	private consecutiveAutoApprovedRequestsCount: number = 0
 	private consecutiveMistakeCount: number = 0
+	private shownBudgetWarnings = new Set<ClineBudgetLimit["scope"]>()
 	private providerRef: WeakRef<ClineProvider>
 	private abort: boolean = false
 	didFinishAborting = false
 	abandoned = false
 	private diffViewProvider: DiffViewProvider
+	private lastPromptFingerprint?: PromptFingerprint
+	private promptCacheBreak?: ClinePromptCacheBreak
+	promptCacheStatus?: ClinePromptCacheStatus
+	private resumedAfterCacheExpiry = false // only the first request after resuming a task condenses on cache expiry, not every request after a long approval
 
 	// streaming
 	private currentStreamingContentIndex = 0
@@ -100,17 +133,25 @@ export class Cline {
 		apiConfiguration: ApiConfiguration,
 		autoApprovalSettings: AutoApprovalSettings,
 		customInstructions?: string,
+		truncationStrategy?: TruncationStrategyName,
+		condenseOnCacheExpiry?: boolean,
+		apiConfigurationProfile?: string,
 		task?: string,
 		images?: string[],
 		historyItem?: HistoryItem,
 	) {
 		this.providerRef = new WeakRef(provider)
-		this.api = buildApiHandler(apiConfiguration)
+		this.api = buildApiHandler(apiConfiguration, provider.cassette)
+		this.apiProvider = apiConfiguration.apiProvider
+		this.nativeToolCalls = usesNativeToolCalls(apiConfiguration)
+		this.apiConfigurationProfile = apiConfigurationProfile
 		this.terminalManager = new TerminalManager()
 		this.urlContentFetcher = new UrlContentFetcher(provider.context)
 		this.browserSession = new BrowserSession(provider.context)
 		this.diffViewProvider = new DiffViewProvider(cwd)
 		this.customInstructions = customInstructions
+		this.truncationStrategy = truncationStrategy
+		this.condenseOnCacheExpiry = condenseOnCacheExpiry
 		this.autoApprovalSettings = autoApprovalSettings
 		if (historyItem) {
 			this.taskId = historyItem.id
@@ -213,6 +254,7 @@ export class Cline {
 				cacheWrites: apiMetrics.totalCacheWrites,
 				cacheReads: apiMetrics.totalCacheReads,
 				totalCost: apiMetrics.totalCost,
+				apiConfigurationProfile: this.apiConfigurationProfile,
 			})
 		} catch (error) {
 			console.error("Failed to save cline messages:", error)
@@ -453,6 +495,15 @@ export class Cline {
 		await this.overwriteClineMessages(modifiedClineMessages)
 		this.clineMessages = await this.getSavedClineMessages()
 
+		// the cache was last used by the last completed request, so the user can see whether resuming will have to re-write it
+		const lastCompletedApiReq = findLast(
+			this.clineMessages,
+			(m) => m.say === "api_req_started" && JSON.parse(m.text || "{}").cost !== undefined,
+		)
+		if (lastCompletedApiReq) {
+			this.updatePromptCacheStatus(lastCompletedApiReq.ts, JSON.parse(lastCompletedApiReq.text || "{}"))
+		}
+
 		// Now present the cline messages to the user and ask if they want to resume
 
 		const lastClineMessage = this.clineMessages
@@ -478,6 +529,7 @@ export class Cline {
 		}
 
 		const { response, text, images } = await this.ask(askType) // calls poststatetowebview
+		this.resumedAfterCacheExpiry = this.isPromptCacheExpired()
 		let responseText: string | undefined
 		let responseImages: string[] | undefined
 		if (response === "messageResponse") {
@@ -492,37 +544,7 @@ export class Cline {
 			await this.getSavedApiConversationHistory()
 
 		// v2.0 xml tags refactor caveat: since we don't use tools anymore, we need to replace all tool use blocks with a text block since the API disallows conversations with tool uses and no tool schema
-		const conversationWithoutToolBlocks = existingApiConversationHistory.map((message) => {
-			if (Array.isArray(message.content)) {
-				const newContent = message.content.map((block) => {
-					if (block.type === "tool_use") {
-						// it's important we convert to the new tool schema format so the model doesn't get confused about how to invoke tools
-						const inputAsXml = Object.entries(block.input as Record<string, string>)
-							.map(([key, value]) => `<${key}>\n${value}\n</${key}>`)
-							.join("\n")
-						return {
-							type: "text",
-							text: `<${block.name}>\n${inputAsXml}\n</${block.name}>`,
-						} as Anthropic.Messages.TextBlockParam
-					} else if (block.type === "tool_result") {
-						// Convert block.content to text block array, removing images
-						const contentAsTextBlocks = Array.isArray(block.content)
-							? block.content.filter((item) => item.type === "text")
-							: [{ type: "text", text: block.content }]
-						const textContent = contentAsTextBlocks.map((item) => item.text).join("\n\n")
-						const toolName = findToolName(block.tool_use_id, existingApiConversationHistory)
-						return {
-							type: "text",
-							text: `[${toolName} Result]\n\n${textContent}`,
-						} as Anthropic.Messages.TextBlockParam
-					}
-					return block
-				})
-				return { ...message, content: newContent }
-			}
-			return message
-		})
-		existingApiConversationHistory = conversationWithoutToolBlocks
+		existingApiConversationHistory = convertToolBlocksToText(existingApiConversationHistory)
 
 		// FIXME: remove tool use blocks altogether
 
@@ -792,7 +814,7 @@ export class Cline {
 		return false
 	}
 
-	async *attemptApiRequest(previousApiReqIndex: number): ApiStream {
+	async *attemptApiRequest(previousApiReqIndex: number, retryAttempt: number = 0): ApiStream {
 		// Wait for MCP servers to be connected before generating system prompt
 		await pWaitFor(() => this.providerRef.deref()?.mcpHub?.isConnecting !== true, { timeout: 10_000 }).catch(() => {
 			console.error("MCP servers failed to connect in time")
@@ -803,7 +825,12 @@ export class Cline {
 			throw new Error("MCP hub not available")
 		}
 
-		let systemPrompt = await SYSTEM_PROMPT(cwd, this.api.getModel().info.supportsComputerUse ?? false, mcpHub)
+		const supportsComputerUse = this.api.getModel().info.supportsComputerUse ?? false
+		let systemPrompt = await SYSTEM_PROMPT(cwd, supportsComputerUse, mcpHub)
+		if (this.nativeToolCalls) {
+			systemPrompt += nativeToolCallsInstructions
+		}
+		const baseSystemPrompt = systemPrompt
 		let settingsCustomInstructions = this.customInstructions?.trim()
 		const clineRulesFilePath = path.resolve(cwd, GlobalFileNames.clineRules)
 		let clineRulesFileInstructions: string | undefined
@@ -824,6 +851,8 @@ export class Cline {
 		}
 
 		// If the previous API request's total token usage is close to the context window, truncate the conversation history to free up space for the new request
+		let truncatedBy: string | undefined
+		const expiredPromptCache = this.isPromptCacheExpired() ? this.promptCacheStatus : undefined
 		if (previousApiReqIndex >= 0) {
 			const previousRequest = this.clineMessages[previousApiReqIndex]
 			if (previousRequest && previousRequest.text) {
@@ -834,20 +863,108 @@ export class Cline {
 				const contextWindow = this.api.getModel().info.contextWindow || 128_000
 				const maxAllowedSize = Math.max(contextWindow - 40_000, contextWindow * 0.8)
 				if (totalTokens >= maxAllowedSize) {
-					const truncatedMessages = truncateHalfConversation(this.apiConversationHistory)
-					await this.overwriteApiConversationHistory(truncatedMessages)
+					truncatedBy = await this.truncateConversationHistory(systemPrompt, "context_window")
 				}
 			}
 		}
+		if (expiredPromptCache) {
+			// the whole prompt has to be written to the cache again anyway, so it's cheaper to condense it first
+			if (!truncatedBy && this.condenseOnCacheExpiry && this.resumedAfterCacheExpiry) {
+				truncatedBy = await this.truncateConversationHistory(systemPrompt, "cache_expired")
+			}
+			// a retried request shouldn't condense again, and this request re-creates the cache
+			this.promptCacheStatus = undefined
+		}
+		this.resumedAfterCacheExpiry = false
+
+		// fingerprint the request prefix so we can explain why the prompt cache could not be reused
+		const fingerprint = fingerprintPrompt({
+			modelId: this.api.getModel().id,
+			systemPrompt: baseSystemPrompt,
+			mcpServers: mcpHub.getServers(),
+			customInstructions: settingsCustomInstructions,
+			clineRules: clineRulesFileInstructions,
+			messages: this.apiConversationHistory,
+		})
+		if (this.lastPromptFingerprint) {
+			// a retried request has the same prefix as the failed one, so we keep the break found on the first attempt
+			const cacheBreak = findPromptCacheBreak(this.lastPromptFingerprint, fingerprint, truncatedBy)
+			if (cacheBreak) {
+				this.promptCacheBreak = cacheBreak
+			}
+		}
+		this.lastPromptFingerprint = fingerprint
+		if (expiredPromptCache && this.promptCacheBreak?.segment !== "model") {
+			const idleMinutes = Math.round((Date.now() - expiredPromptCache.lastRequestAt) / 60_000)
+			this.promptCacheBreak = {
+				segment: "none",
+				reason: `Prompt cache expired after ${idleMinutes} minute${idleMinutes === 1 ? "" : "s"} of inactivity`,
+			}
+		}
 
-		const stream = this.api.createMessage(systemPrompt, this.apiConversationHistory)
+		// native tool calls from earlier in the task are sent as XML when they're turned off or the configuration changed, since APIs reject tool blocks without tools
+		const stream = this.nativeToolCalls
+			? this.api.createMessage(
+					systemPrompt,
+					this.apiConversationHistory,
+					nativeToolDefinitions(supportsComputerUse),
+				)
+			: this.api.createMessage(systemPrompt, convertToolBlocksToText(this.apiConversationHistory))
 		const iterator = stream[Symbol.asyncIterator]()
 
 		try {
-			// awaiting first chunk to see if it will throw an error
-			const firstChunk = await iterator.next()
-			yield firstChunk.value
+			// awaiting first chunk of the response to see if it will throw an error, metadata can come before it
+			// usage is held back until then, since the usage of a failed attempt would be counted again when it's retried
+			const heldUsage: ApiStreamChunk[] = []
+			let firstChunk = await iterator.next()
+			while (!firstChunk.done && isMetadataChunk(firstChunk.value)) {
+				if (firstChunk.value.type === "usage") {
+					heldUsage.push(firstChunk.value)
+				} else {
+					yield firstChunk.value
+				}
+				firstChunk = await iterator.next()
+			}
+			if (firstChunk.value?.type === "error") {
+				throw new ApiStreamError(firstChunk.value)
+			}
+			// the retried request succeeded, so the row shouldn't keep showing the retry while the response streams
+			if (retryAttempt > 0) {
+				await this.updateApiReqInfo({ retryStatus: undefined })
+			}
+			for (const chunk of heldUsage) {
+				yield chunk
+			}
+			if (!firstChunk.done) {
+				yield firstChunk.value
+			}
 		} catch (error) {
+			// the context window estimate was off, so shorten the history and send it again instead of failing the task
+			if (
+				getApiErrorKind(error) === "context_overflow" &&
+				(await this.truncateConversationHistory(systemPrompt, "context_overflow"))
+			) {
+				yield* this.attemptApiRequest(previousApiReqIndex, retryAttempt)
+				return
+			}
+			// transient errors like rate limits and overloaded servers are retried automatically, so unattended tasks don't stall on them
+			const retryDelay = getRetryDelay(error, retryAttempt)
+			if (retryDelay !== undefined) {
+				await this.updateApiReqInfo({
+					retryStatus: {
+						attempt: retryAttempt + 1,
+						maxAttempts: MAX_API_RETRIES,
+						retryAt: Date.now() + retryDelay,
+						error: error.message ?? String(error),
+					},
+				})
+				await pWaitFor(() => this.abort, { timeout: retryDelay }).catch(() => {})
+				if (this.abort) {
+					throw new Error("Cline instance aborted")
+				}
+				yield* this.attemptApiRequest(previousApiReqIndex, retryAttempt + 1)
+				return
+			}
 			// note that this api_req_failed ask is unique in that we only present this option if the api hasn't streamed any content yet (ie it fails on the first chunk due), as it would allow them to hit a retry button. However if the api failed mid-stream, it could be in any arbitrary state where some tools may have executed, so that error is handled differently and requires cancelling the task entirely.
 			const { response } = await this.ask(
 				"api_req_failed",
@@ -869,6 +986,84 @@ export class Cline {
 		yield* iterator
 	}
 
+	/**
+	 * Truncates the conversation history with the configured strategy, reporting what the cut will cost in cache re-writes on the current request.
+	 * Returns the name of the strategy if any messages were removed.
+	 */
+	private async truncateConversationHistory(
+		systemPrompt: string,
+		reason: NonNullable<ClineContextTruncation["reason"]>,
+	): Promise<string | undefined> {
+		const { id: modelId, info: modelInfo } = this.api.getModel()
+		// once the cache has expired there's no prefix left to preserve, so cutting as much as possible is cheapest
+		const strategy =
+			reason === "cache_expired" ? halfTruncationStrategy : getTruncationStrategy(this.truncationStrategy)
+		const plan = strategy.plan(this.apiConversationHistory, {
+			cacheRule: getPromptCacheRule(this.apiProvider, modelId, modelInfo),
+			modelInfo,
+			systemPromptTokens: estimateTokens(systemPrompt),
+		})
+		if (plan.removedMessages === 0) {
+			return undefined
+		}
+		const currentApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
+		if (currentApiReqIndex !== -1) {
+			this.clineMessages[currentApiReqIndex].text = JSON.stringify({
+				...JSON.parse(this.clineMessages[currentApiReqIndex].text || "{}"),
+				contextTruncation: {
+					reason,
+					strategy: strategy.name,
+					removedMessages: plan.removedMessages,
+					reusablePrefixTokens: plan.reusablePrefixTokens,
+					rewriteTokens: plan.rewriteTokens,
+					rewriteCost: plan.rewriteCost,
+				} satisfies ClineContextTruncation,
+			} satisfies ClineApiReqInfo)
+			await this.saveClineMessages()
+			await this.providerRef.deref()?.postStateToWebview()
+		}
+		await this.overwriteApiConversationHistory(plan.messages)
+		return strategy.displayName
+	}
+
+	// updates the current request while it's in progress, e.g. with the status of a retry
+	private async updateApiReqInfo(update: ClineApiReqInfo) {
+		const currentApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
+		if (currentApiReqIndex === -1) {
+			return
+		}
+		this.clineMessages[currentApiReqIndex].text = JSON.stringify({
+			...JSON.parse(this.clineMessages[currentApiReqIndex].text || "{}"),
+			...update,
+		} satisfies ClineApiReqInfo)
+		await this.saveClineMessages()
+		await this.providerRef.deref()?.postStateToWebview()
+	}
+
+	// remembers when the prompt cache was last used and what re-writing it would cost, so the user can be warned once it has likely expired
+	private updatePromptCacheStatus(lastRequestAt: number, request: ClineApiReqInfo) {
+		const { id: modelId, info: modelInfo } = this.api.getModel()
+		const ttl = getPromptCacheTtl(this.apiProvider, modelId, modelInfo)
+		if (ttl === undefined) {
+			this.promptCacheStatus = undefined
+			return
+		}
+		// the next request sends the previous prompt along with the response to it
+		const rewriteTokens =
+			(request.tokensIn || 0) + (request.tokensOut || 0) + (request.cacheWrites || 0) + (request.cacheReads || 0)
+		const rewriteCost =
+			getPromptCacheRule(this.apiProvider, modelId, modelInfo) === "cache_control"
+				? calculateApiCost(modelInfo, 0, 0, rewriteTokens)
+				: calculateApiCost(modelInfo, rewriteTokens, 0)
+		this.promptCacheStatus = { lastRequestAt, ttl, rewriteTokens, rewriteCost }
+	}
+
+	private isPromptCacheExpired(): boolean {
+		return (
+			!!this.promptCacheStatus && Date.now() - this.promptCacheStatus.lastRequestAt > this.promptCacheStatus.ttl
+		)
+	}
+
 	async presentAssistantMessage() {
 		if (this.abort) {
 			throw new Error("Cline instance aborted")
@@ -2222,6 +2417,64 @@ export class Cline {
 		}
 	}
 
+	/**
+	 * Pauses before the next request once the task or daily budget is used up, showing what the request is expected to cost.
+	 * Approving allows a single request, so the user is asked again before every request over the budget.
+	 */
+	private async checkBudgets(previousApiReqIndex: number) {
+		const { taskBudget, dailyBudget, budgetWarningThreshold } = this.autoApprovalSettings
+		const budgets: ClineBudgetLimit[] = []
+		if (taskBudget) {
+			budgets.push({ scope: "task", limit: taskBudget, spent: getApiMetrics(this.clineMessages).totalCost })
+		}
+		if (dailyBudget) {
+			const spent = (await this.providerRef.deref()?.getDailySpend()) ?? 0
+			budgets.push({ scope: "daily", limit: dailyBudget, spent })
+		}
+
+		for (const budget of budgets) {
+			if (budget.spent >= budget.limit) {
+				showSystemNotification({
+					subtitle: "Budget Reached",
+					message: `Cline has reached the $${budget.limit.toFixed(2)} ${budget.scope} budget.`,
+				})
+				const previousRequest: ClineApiReqInfo | undefined =
+					previousApiReqIndex >= 0
+						? JSON.parse(this.clineMessages[previousApiReqIndex].text || "{}")
+						: undefined
+				await this.ask(
+					"budget_limit_reached",
+					JSON.stringify({
+						...budget,
+						projectedCost: previousRequest
+							? estimateNextRequestCost(this.api.getModel().info, previousRequest)
+							: undefined,
+					} satisfies ClineBudgetLimit),
+				)
+				// if we get past the promise it means the user approved the request and did not start a new task
+				return
+			}
+			if (
+				budget.spent >= budget.limit * (budgetWarningThreshold ?? DEFAULT_BUDGET_WARNING_THRESHOLD) &&
+				!this.shownBudgetWarnings.has(budget.scope)
+			) {
+				this.shownBudgetWarnings.add(budget.scope)
+				showSystemNotification({
+					subtitle: "Budget Warning",
+					message: `Cline has spent $${budget.spent.toFixed(2)} of the $${budget.limit.toFixed(2)} ${budget.scope} budget.`,
+				})
+			}
+		}
+	}
+
+	// adds a finished request's cost to the spend shared across tasks for the daily budget
+	private async recordDailySpend(apiReqIndex: number) {
+		const { cost }: ClineApiReqInfo = JSON.parse(this.clineMessages[apiReqIndex].text || "{}")
+		if (cost) {
+			await this.providerRef.deref()?.addDailySpend(cost)
+		}
+	}
+
 	async recursivelyMakeClineRequests(
 		userContent: UserContent,
 		includeFileDetails: boolean = false,
@@ -2278,6 +2531,8 @@ export class Cline {
 		// get previous api req's index to check token usage and determine if we need to truncate conversation history
 		const previousApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
 
+		await this.checkBudgets(previousApiReqIndex)
+
 		// getting verbose details is an expensive operation, it uses globby to top-down build file structure of project which for large projects can take a few seconds
 		// for the best UX we show a placeholder api_req_started message with a loading spinner as this happens
 		await this.say(
@@ -2308,7 +2563,12 @@ export class Cline {
 			let cacheReadTokens = 0
 			let inputTokens = 0
 			let outputTokens = 0
+			let reasoningTokens = 0
 			let totalCost: number | undefined
+			let cacheBreakpoints: ClineCacheBreakpoint[] | undefined
+			let servedBy: ClineApiProvider | undefined
+			let providerFailures: ClineApiProviderFailure[] | undefined
+			let cacheBreak: ClinePromptCacheBreak | undefined // only known once the usage shows whether cache reads dropped
 
 			// update api_req_started. we can't use api_req_finished anymore since it's a unique case where it could come after a streaming message (ie in the middle of being updated or executed)
 			// fortunately api_req_finished was always parsed out for the gui anyways, so it remains solely for legacy purposes to keep track of prices in tasks from history
@@ -2320,6 +2580,7 @@ export class Cline {
 					tokensOut: outputTokens,
 					cacheWrites: cacheWriteTokens,
 					cacheReads: cacheReadTokens,
+					reasoningTokens: reasoningTokens || undefined,
 					cost:
 						totalCost ??
 						calculateApiCost(
@@ -2328,9 +2589,22 @@ export class Cline {
 							outputTokens,
 							cacheWriteTokens,
 							cacheReadTokens,
+							reasoningTokens,
 						),
+					uncachedCost: calculateApiCost(
+						this.api.getModel().info,
+						inputTokens + cacheWriteTokens + cacheReadTokens,
+						outputTokens,
+						undefined,
+						undefined,
+						reasoningTokens,
+					),
 					cancelReason,
 					streamingFailedMessage,
+					cacheBreak,
+					cacheBreakpoints,
+					servedBy,
+					providerFailures: providerFailures?.length ? providerFailures : undefined,
 				} satisfies ClineApiReqInfo)
 			}
 
@@ -2368,6 +2642,7 @@ export class Cline {
 
 				// update api_req_started to have cancelled and cost, so that we can display the cost of the partial stream
 				updateApiReqMsg(cancelReason, streamingFailedMessage)
+				await this.recordDailySpend(lastApiReqIndex)
 				await this.saveClineMessages()
 
 				// signals to provider that it can retrieve the saved messages from disk, as abortTask can not be awaited on in nature
@@ -2384,30 +2659,73 @@ export class Cline {
 			this.didAlreadyUseTool = false
 			this.presentAssistantMessageLocked = false
 			this.presentAssistantMessageHasPendingUpdates = false
+			this.promptCacheBreak = undefined
 			await this.diffViewProvider.reset()
 
 			const stream = this.attemptApiRequest(previousApiReqIndex) // yields only if the first chunk is successful, otherwise will allow the user to retry the request (most likely due to rate limit error, which gets thrown on the first chunk)
 			let assistantMessage = ""
+			let reasoningMessage = ""
+			const toolCalls: ApiStreamToolCallChunk[] = []
+			const updateAssistantMessageContent = () => {
+				// parse raw assistant message into content blocks, native tool calls always come after the text
+				const prevLength = this.assistantMessageContent.length
+				this.assistantMessageContent = [
+					...parseAssistantMessage(assistantMessage),
+					...toolCalls.map(parseToolCall).filter((block) => block !== undefined),
+				]
+				if (this.assistantMessageContent.length > prevLength) {
+					this.userMessageContentReady = false // new content we need to present, reset to false in case previous content set this to true
+				}
+				// present content to user
+				this.presentAssistantMessage()
+			}
+			// completes the streamed reasoning row once the answer starts, so the answer gets its own row
+			const finishReasoning = async () => {
+				const lastMessage = this.clineMessages.at(-1)
+				if (lastMessage?.say === "reasoning" && lastMessage.partial) {
+					await this.say("reasoning", reasoningMessage, undefined, false)
+				}
+			}
 			try {
 				for await (const chunk of stream) {
 					switch (chunk.type) {
 						case "usage":
 							inputTokens += chunk.inputTokens
 							outputTokens += chunk.outputTokens
+							reasoningTokens += chunk.reasoningTokens ?? 0
 							cacheWriteTokens += chunk.cacheWriteTokens ?? 0
 							cacheReadTokens += chunk.cacheReadTokens ?? 0
 							totalCost = chunk.totalCost
 							break
+						case "cache_breakpoints":
+							cacheBreakpoints = chunk.breakpoints
+							break
+						case "error":
+							// handled like any other error thrown while streaming
+							throw new ApiStreamError(chunk)
+						case "provider":
+							servedBy = { apiProvider: chunk.apiProvider, modelId: chunk.modelId }
+							providerFailures = chunk.failures
+							// cache rules and TTLs follow the provider that actually served the request
+							this.apiProvider = chunk.apiProvider
+							break
+						case "reasoning_progress":
+							await this.updateApiReqInfo({ reasoningStartedAt: chunk.startedAt })
+							break
+						case "reasoning":
+							// only shown to the user, the model doesn't get its reasoning back in the conversation history
+							reasoningMessage += chunk.reasoning
+							await this.say("reasoning", reasoningMessage, undefined, true)
+							break
 						case "text":
+							await finishReasoning()
 							assistantMessage += chunk.text
-							// parse raw assistant message into content blocks
-							const prevLength = this.assistantMessageContent.length
-							this.assistantMessageContent = parseAssistantMessage(assistantMessage)
-							if (this.assistantMessageContent.length > prevLength) {
-								this.userMessageContentReady = false // new content we need to present, reset to false in case previous content set this to true
-							}
-							// present content to user
-							this.presentAssistantMessage()
+							updateAssistantMessageContent()
+							break
+						case "tool_call":
+							await finishReasoning()
+							toolCalls.push(chunk)
+							updateAssistantMessageContent()
 							break
 					}
 
@@ -2456,6 +2774,7 @@ export class Cline {
 				throw new Error("Cline instance aborted")
 			}
 
+			await finishReasoning()
 			this.didCompleteReadingStream = true
 
 			// set any blocks to be complete to allow presentAssistantMessage to finish and set userMessageContentReady to true
@@ -2469,17 +2788,41 @@ export class Cline {
 				this.presentAssistantMessage() // if there is content to update then it will complete and update this.userMessageContentReady to true, which we pwaitfor before making the next request. all this is really doing is presenting the last partial message that we just set to complete
 			}
 
+			// a cache miss is only explained when cache reads dropped, models without prompt caching never read from a cache
+			if (this.api.getModel().info.supportsPromptCache && previousApiReqIndex >= 0) {
+				const previousRequest: ClineApiReqInfo = JSON.parse(
+					this.clineMessages[previousApiReqIndex].text || "{}",
+				)
+				if (cacheReadTokens < (previousRequest.cacheReads || 0)) {
+					// if the prefix didn't change, the provider must have let the cache expire
+					cacheBreak = this.promptCacheBreak ?? {
+						segment: "none",
+						reason: "Prompt prefix unchanged, the cache likely expired or was evicted by the provider",
+					}
+				}
+			}
+
 			updateApiReqMsg()
+			await this.recordDailySpend(lastApiReqIndex)
+			this.updatePromptCacheStatus(Date.now(), {
+				tokensIn: inputTokens,
+				tokensOut: outputTokens,
+				cacheWrites: cacheWriteTokens,
+				cacheReads: cacheReadTokens,
+			})
 			await this.saveClineMessages()
 			await this.providerRef.deref()?.postStateToWebview()
 
 			// now add to apiconversationhistory
 			// need to save assistant responses to file before proceeding to tool use since user can exit at any moment and we wouldn't be able to save the assistant's response
 			let didEndLoop = false
-			if (assistantMessage.length > 0) {
+			if (assistantMessage.length > 0 || toolCalls.length > 0) {
 				await this.addToApiConversationHistory({
 					role: "assistant",
-					content: [{ type: "text", text: assistantMessage }],
+					content: [
+						...(assistantMessage.length > 0 ? [{ type: "text" as const, text: assistantMessage }] : []),
+						...toolCalls.map(toToolUseBlock),
+					],
 				})
 
 				// NOTE: this comment is here for future reference - this was a workaround for userMessageContent not getting set to true. It was due to it not recursively calling for partial blocks when didRejectTool, so it would get stuck waiting for a partial block to complete before it could continue.
@@ -2502,7 +2845,12 @@ export class Cline {
 					this.consecutiveMistakeCount++
 				}
 
-				const recDidEndLoop = await this.recursivelyMakeClineRequests(this.userMessageContent)
+				// native tool calls must each be answered with a tool result
+				const recDidEndLoop = await this.recursivelyMakeClineRequests(
+					toolCalls.length > 0
+						? toToolResultBlocks(toolCalls, this.userMessageContent)
+						: this.userMessageContent,
+				)
 				didEndLoop = recDidEndLoop
 			} else {
 				// if there's no assistant_responses, that means we got no text or tool_use content blocks from API which we should assume is an error
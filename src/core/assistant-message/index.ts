@@ -1,6 +1,7 @@
 export type AssistantMessageContent = TextContent | ToolUse
 
 export { parseAssistantMessage } from "./parse-assistant-message"
+export { parseToolCall, toToolResultBlocks, toToolUseBlock } from "./parse-tool-call"
 
 export interface TextContent {
 	type: "text"
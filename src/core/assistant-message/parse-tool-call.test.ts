@@ -0,0 +1,73 @@
+import { describe, it } from "mocha"
+import "should"
+import { accumulateToolCallDeltas } from "../../api/transform/openai-format"
+import { ApiStreamToolCallChunk } from "../../api/transform/stream"
+import { parseToolCall, toToolResultBlocks, toToolUseBlock } from "./parse-tool-call"
+
+const toolCall = (name: string, args: string, id = "call_1"): ApiStreamToolCallChunk => ({
+	type: "tool_call",
+	id,
+	name,
+	arguments: args,
+})
+
+describe("parseToolCall", () => {
+	it("should convert arguments to string params", () => {
+		const toolUse = parseToolCall(toolCall("execute_command", '{"command":"npm test","requires_approval":false}'))
+		toolUse!.should.deepEqual({
+			type: "tool_use",
+			name: "execute_command",
+			params: { command: "npm test", requires_approval: "false" },
+			partial: false,
+		})
+	})
+
+	it("should stringify MCP tool arguments and drop unknown params", () => {
+		const toolUse = parseToolCall(
+			toolCall(
+				"use_mcp_tool",
+				'{"server_name":"weather","tool_name":"forecast","arguments":{"city":"Oslo"},"x":1}',
+			),
+		)
+		toolUse!.params.should.deepEqual({
+			server_name: "weather",
+			tool_name: "forecast",
+			arguments: '{"city":"Oslo"}',
+		})
+	})
+
+	it("should leave params empty for invalid arguments so the missing param is reported", () => {
+		parseToolCall(toolCall("read_file", '{"path": "src/'))!.params.should.deepEqual({})
+		toToolUseBlock(toolCall("read_file", '{"path": "src/')).input!.should.deepEqual({})
+	})
+
+	it("should ignore unknown tools", () => {
+		;(parseToolCall(toolCall("delete_everything", "{}")) === undefined).should.be.true()
+	})
+
+	it("should answer every tool call", () => {
+		const results = toToolResultBlocks(
+			[toolCall("read_file", "{}", "call_1"), toolCall("list_files", "{}", "call_2")],
+			[{ type: "text", text: "[read_file for 'a.ts'] Result:" }],
+		)
+		results.map((result) => result.tool_use_id).should.deepEqual(["call_1", "call_2"])
+		results[0].content!.should.deepEqual([{ type: "text", text: "[read_file for 'a.ts'] Result:" }])
+		results[1].content!.should.be.a.String()
+	})
+})
+
+describe("accumulateToolCallDeltas", () => {
+	it("should join streamed argument fragments by index", () => {
+		const toolCalls: ApiStreamToolCallChunk[] = []
+		accumulateToolCallDeltas(toolCalls, [
+			{ index: 0, id: "call_a", type: "function", function: { name: "read_file", arguments: '{"pa' } },
+		])
+		accumulateToolCallDeltas(toolCalls, [{ index: 0, function: { arguments: 'th":"a.ts"}' } }])
+		accumulateToolCallDeltas(toolCalls, [{ index: 1, function: { name: "list_files", arguments: "{}" } }])
+		accumulateToolCallDeltas(toolCalls, undefined)
+		toolCalls.should.deepEqual([
+			{ type: "tool_call", id: "call_a", name: "read_file", arguments: '{"path":"a.ts"}' },
+			{ type: "tool_call", id: "call_1", name: "list_files", arguments: "{}" },
+		])
+	})
+})
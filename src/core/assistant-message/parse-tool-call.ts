@@ -0,0 +1,48 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { ToolParamName, toolParamNames, ToolUse, ToolUseName, toolUseNames } from "."
+import { ApiStreamToolCallChunk } from "../../api/transform/stream"
+
+function parseArguments(toolCall: ApiStreamToolCallChunk): Record<string, unknown> {
+	try {
+		const input = JSON.parse(toolCall.arguments || "{}")
+		return typeof input === "object" && input !== null ? input : {}
+	} catch {
+		// missing params are reported to the model the same way as for XML tool uses
+		return {}
+	}
+}
+
+/**
+ * Converts a native tool call into the same ToolUse content as the XML tool use format, so it goes through the same approval flow.
+ * Param values are strings in the XML format, so booleans and objects (e.g. MCP tool arguments) are stringified.
+ */
+export function parseToolCall(toolCall: ApiStreamToolCallChunk): ToolUse | undefined {
+	if (!toolUseNames.includes(toolCall.name as ToolUseName)) {
+		return undefined
+	}
+	const params: ToolUse["params"] = {}
+	for (const [name, value] of Object.entries(parseArguments(toolCall))) {
+		if (toolParamNames.includes(name as ToolParamName) && value !== undefined && value !== null) {
+			params[name as ToolParamName] = typeof value === "object" ? JSON.stringify(value) : String(value)
+		}
+	}
+	return { type: "tool_use", name: toolCall.name as ToolUseName, params, partial: false }
+}
+
+export function toToolUseBlock(toolCall: ApiStreamToolCallChunk): Anthropic.ToolUseBlockParam {
+	return { type: "tool_use", id: toolCall.id, name: toolCall.name, input: parseArguments(toolCall) }
+}
+
+/**
+ * Every tool call needs a result in the next message. Only the first call is executed per message, so it gets the whole response and the others are marked as skipped.
+ */
+export function toToolResultBlocks(
+	toolCalls: ApiStreamToolCallChunk[],
+	content: (Anthropic.TextBlockParam | Anthropic.ImageBlockParam)[],
+): Anthropic.ToolResultBlockParam[] {
+	return toolCalls.map((toolCall, index) => ({
+		type: "tool_result",
+		tool_use_id: toolCall.id,
+		content: index === 0 ? content : "This tool was not executed because only one tool may be used per message.",
+	}))
+}
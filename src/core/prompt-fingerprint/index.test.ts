@@ -0,0 +1,82 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import should from "should"
+import { McpServer } from "../../shared/mcp"
+import { findPromptCacheBreak, fingerprintPrompt, PromptSegments } from "."
+
+describe("Prompt Fingerprint", () => {
+	const messages: Anthropic.Messages.MessageParam[] = [
+		{ role: "user", content: "<task>\nBuild a todo app\n</task>" },
+		{ role: "assistant", content: "<list_files>\n<path>.</path>\n</list_files>" },
+		{ role: "user", content: "[list_files Result]" },
+		{ role: "assistant", content: "<read_file>\n<path>package.json</path>\n</read_file>" },
+		{ role: "user", content: "[read_file Result]" },
+	]
+	const server: McpServer = {
+		name: "weather",
+		config: JSON.stringify({ command: "node", args: ["weather.js"] }),
+		status: "connected",
+		tools: [{ name: "get_forecast" }],
+	}
+	const segments: PromptSegments = {
+		modelId: "claude-3-5-sonnet-20241022",
+		systemPrompt: "You are Cline",
+		mcpServers: [server],
+		customInstructions: "Use tabs",
+		messages: messages.slice(0, 3),
+	}
+
+	it("should not report a break when messages are only appended", () => {
+		const previous = fingerprintPrompt(segments)
+		const current = fingerprintPrompt({ ...segments, messages })
+		should.not.exist(findPromptCacheBreak(previous, current))
+	})
+
+	it("should ignore MCP server error logs", () => {
+		const previous = fingerprintPrompt(segments)
+		const current = fingerprintPrompt({ ...segments, mcpServers: [{ ...server, error: "some log" }] })
+		previous.mcpServers.should.deepEqual(current.mcpServers)
+	})
+
+	it("should attribute system prompt changes to a reconnected MCP server", () => {
+		const previous = fingerprintPrompt({
+			...segments,
+			systemPrompt: "You are Cline (no servers)",
+			mcpServers: [{ ...server, status: "disconnected" }],
+		})
+		const current = fingerprintPrompt(segments)
+		const cacheBreak = findPromptCacheBreak(previous, current)!
+		cacheBreak.segment.should.equal("mcp_servers")
+		cacheBreak.reason.should.equal("System prompt changed because MCP server 'weather' reconnected")
+	})
+
+	it("should report custom instruction changes", () => {
+		const previous = fingerprintPrompt(segments)
+		const current = fingerprintPrompt({ ...segments, customInstructions: "Use spaces" })
+		findPromptCacheBreak(previous, current)!.segment.should.equal("custom_instructions")
+	})
+
+	it("should report history truncation with the strategy name", () => {
+		const previous = fingerprintPrompt({ ...segments, messages })
+		const current = fingerprintPrompt({ ...segments, messages: [messages[0], ...messages.slice(3)] })
+		const cacheBreak = findPromptCacheBreak(previous, current, "truncateHalfConversation")!
+		cacheBreak.segment.should.equal("history")
+		cacheBreak.messageIndex!.should.equal(1)
+		cacheBreak.reason.should.equal(
+			"History truncated by truncateHalfConversation (2 messages removed starting at message #2)",
+		)
+	})
+
+	it("should report modified history messages", () => {
+		const previous = fingerprintPrompt({ ...segments, messages })
+		const modified = [...messages.slice(0, 4), { role: "user", content: "[TASK RESUMPTION]" } as const]
+		const cacheBreak = findPromptCacheBreak(previous, fingerprintPrompt({ ...segments, messages: modified }))!
+		cacheBreak.reason.should.equal("History message #5 was modified")
+	})
+
+	it("should report model changes before anything else", () => {
+		const previous = fingerprintPrompt(segments)
+		const current = fingerprintPrompt({ ...segments, modelId: "gpt-4o", customInstructions: "" })
+		findPromptCacheBreak(previous, current)!.segment.should.equal("model")
+	})
+})
@@ -0,0 +1,150 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { createHash } from "crypto"
+import { ClinePromptCacheBreak } from "../../shared/ExtensionMessage"
+import { McpServer } from "../../shared/mcp"
+
+/*
+Prompt caches (automatic or cache_control based) only ever match a prefix of the request, so the first segment that changes between two requests determines how much of the cache can be reused. We hash each segment of the serialized request in the order it is sent, and compare against the previous request's hashes to explain every cache miss instead of guessing.
+*/
+
+export interface PromptSegments {
+	modelId: string
+	systemPrompt: string // without custom instructions, but including the MCP servers section
+	mcpServers: McpServer[]
+	customInstructions?: string
+	clineRules?: string
+	messages: Anthropic.Messages.MessageParam[]
+}
+
+export interface PromptFingerprint {
+	modelId: string
+	systemPrompt: string
+	mcpServers: Record<string, { hash: string; status: McpServer["status"] }>
+	customInstructions: string
+	clineRules: string
+	messages: string[]
+}
+
+function hash(value: unknown): string {
+	return createHash("sha256")
+		.update(typeof value === "string" ? value : JSON.stringify(value))
+		.digest("hex")
+}
+
+export function fingerprintPrompt(segments: PromptSegments): PromptFingerprint {
+	const mcpServers: PromptFingerprint["mcpServers"] = {}
+	for (const server of segments.mcpServers) {
+		// error logs are not part of the system prompt, so they shouldn't count as a change
+		const { error, ...serverWithoutError } = server
+		mcpServers[server.name] = { hash: hash(serverWithoutError), status: server.status }
+	}
+	return {
+		modelId: segments.modelId,
+		systemPrompt: hash(segments.systemPrompt),
+		mcpServers,
+		customInstructions: hash(segments.customInstructions ?? ""),
+		clineRules: hash(segments.clineRules ?? ""),
+		messages: segments.messages.map((message) => hash(message)),
+	}
+}
+
+function describeMcpServersChange(previous: PromptFingerprint, current: PromptFingerprint): string | undefined {
+	const names = new Set([...Object.keys(previous.mcpServers), ...Object.keys(current.mcpServers)])
+	for (const name of names) {
+		const before = previous.mcpServers[name]
+		const after = current.mcpServers[name]
+		if (!before) {
+			return `MCP server '${name}' was added`
+		}
+		if (!after) {
+			return `MCP server '${name}' was removed`
+		}
+		if (before.hash === after.hash) {
+			continue
+		}
+		if (before.status === "connected" && after.status !== "connected") {
+			return `MCP server '${name}' disconnected`
+		}
+		if (before.status !== "connected" && after.status === "connected") {
+			return `MCP server '${name}' reconnected`
+		}
+		return `MCP server '${name}' changed its tools or resources`
+	}
+	return undefined
+}
+
+/**
+ * Compares two request fingerprints and returns the first segment (in the order it is sent) that changed.
+ * Returns undefined if the current request only appends to the previous one, i.e. the whole previous prefix is reusable.
+ *
+ * @param truncatedBy - name of the truncation strategy applied to the history before this request, if any
+ */
+export function findPromptCacheBreak(
+	previous: PromptFingerprint,
+	current: PromptFingerprint,
+	truncatedBy?: string,
+): ClinePromptCacheBreak | undefined {
+	if (previous.modelId !== current.modelId) {
+		return {
+			segment: "model",
+			reason: `Model changed from ${previous.modelId} to ${current.modelId}`,
+		}
+	}
+
+	if (previous.systemPrompt !== current.systemPrompt) {
+		const mcpChange = describeMcpServersChange(previous, current)
+		if (mcpChange) {
+			return {
+				segment: "mcp_servers",
+				reason: `System prompt changed because ${mcpChange}`,
+			}
+		}
+		return {
+			segment: "system_prompt",
+			reason: "System prompt changed",
+		}
+	}
+
+	if (previous.customInstructions !== current.customInstructions) {
+		return {
+			segment: "custom_instructions",
+			reason: "System prompt changed because custom instructions were edited",
+		}
+	}
+
+	if (previous.clineRules !== current.clineRules) {
+		return {
+			segment: "clinerules",
+			reason: "System prompt changed because the .clinerules file was edited",
+		}
+	}
+
+	let index = 0
+	while (
+		index < previous.messages.length &&
+		index < current.messages.length &&
+		previous.messages[index] === current.messages[index]
+	) {
+		index++
+	}
+	if (index === previous.messages.length) {
+		return undefined // only new messages were appended
+	}
+
+	// if the first differing message exists later in the previous history, the messages in between were removed
+	const resumedAt = current.messages[index] ? previous.messages.indexOf(current.messages[index], index + 1) : -1
+	if (resumedAt !== -1 || index === current.messages.length) {
+		const removedCount = (resumedAt !== -1 ? resumedAt : previous.messages.length) - index
+		return {
+			segment: "history",
+			reason: `History truncated${truncatedBy ? ` by ${truncatedBy}` : ""} (${removedCount} message${removedCount === 1 ? "" : "s"} removed starting at message #${index + 1})`,
+			messageIndex: index,
+		}
+	}
+
+	return {
+		segment: "history",
+		reason: `History message #${index + 1} was modified`,
+		messageIndex: index,
+	}
+}
@@ -0,0 +1,99 @@
+import { ApiToolDefinition } from "../../api"
+import { ToolUseName } from "../assistant-message"
+
+// the system prompt documents each tool in detail, so the definitions only need to be enough for the model to fill in the arguments
+const string = (description: string) => ({ type: "string", description })
+const boolean = (description: string) => ({ type: "boolean", description })
+
+const tool = (
+	name: ToolUseName,
+	description: string,
+	properties: Record<string, object>,
+	required: string[] = Object.keys(properties),
+): ApiToolDefinition => ({
+	name,
+	description,
+	parameters: { type: "object", properties, required },
+})
+
+export const nativeToolDefinitions = (supportsComputerUse: boolean): ApiToolDefinition[] => [
+	tool("execute_command", "Execute a CLI command on the user's system in the current working directory.", {
+		command: string("The CLI command to execute, valid for the user's operating system."),
+		requires_approval: boolean(
+			"Whether the command needs the user's explicit approval, e.g. because it installs packages, deletes files or makes network requests.",
+		),
+	}),
+	tool("read_file", "Read the contents of a file.", {
+		path: string("The path of the file, relative to the current working directory."),
+	}),
+	tool("write_to_file", "Write the complete content of a file, creating it and any directories if needed.", {
+		path: string("The path of the file, relative to the current working directory."),
+		content: string("The complete content of the file, without omitting any parts."),
+	}),
+	tool("replace_in_file", "Make targeted edits to an existing file with SEARCH/REPLACE blocks.", {
+		path: string("The path of the file, relative to the current working directory."),
+		diff: string("One or more SEARCH/REPLACE blocks in the format described in the system prompt."),
+	}),
+	tool(
+		"search_files",
+		"Regex search across the files in a directory, recursively.",
+		{
+			path: string("The path of the directory, relative to the current working directory."),
+			regex: string("The regular expression to search for, in Rust regex syntax."),
+			file_pattern: string("Glob pattern to filter files, e.g. '*.ts'."),
+		},
+		["path", "regex"],
+	),
+	tool(
+		"list_files",
+		"List the files and directories in a directory.",
+		{
+			path: string("The path of the directory, relative to the current working directory."),
+			recursive: boolean("Whether to list files recursively."),
+		},
+		["path"],
+	),
+	tool("list_code_definition_names", "List the top level source code definitions in a directory.", {
+		path: string("The path of the directory, relative to the current working directory."),
+	}),
+	...(supportsComputerUse
+		? [
+				tool(
+					"browser_action",
+					"Interact with a Puppeteer-controlled browser. Sessions must start with launch and end with close.",
+					{
+						action: {
+							type: "string",
+							enum: ["launch", "click", "type", "scroll_down", "scroll_up", "close"],
+							description: "The action to perform.",
+						},
+						url: string("The URL to open, for the launch action."),
+						coordinate: string("The x,y coordinates to click within the 900x600 viewport, e.g. '450,300'."),
+						text: string("The text to type, for the type action."),
+					},
+					["action"],
+				),
+			]
+		: []),
+	tool("use_mcp_tool", "Use a tool provided by a connected MCP server.", {
+		server_name: string("The name of the MCP server providing the tool."),
+		tool_name: string("The name of the tool to execute."),
+		arguments: { type: "object", description: "The tool's input parameters, following its input schema." },
+	}),
+	tool("access_mcp_resource", "Access a resource provided by a connected MCP server.", {
+		server_name: string("The name of the MCP server providing the resource."),
+		uri: string("The URI of the resource."),
+	}),
+	tool("ask_followup_question", "Ask the user a question to gather information needed to complete the task.", {
+		question: string("A clear, specific question."),
+	}),
+	tool(
+		"attempt_completion",
+		"Present the result of the task to the user once previous tool uses are confirmed to have succeeded.",
+		{
+			result: string("The final result of the task, not ending with questions or offers for further assistance."),
+			command: string("A CLI command to show a live demo of the result."),
+		},
+		["result"],
+	),
+]
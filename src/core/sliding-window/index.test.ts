@@ -0,0 +1,59 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { ModelInfo } from "../../shared/api"
+import {
+	cacheAlignedTruncationStrategy,
+	getTruncationStrategy,
+	halfTruncationStrategy,
+	TruncationContext,
+	truncateHalfConversation,
+} from "."
+
+describe("Sliding Window", () => {
+	// 20 messages, alternating user/assistant, each ~1000 tokens
+	const messages: Anthropic.Messages.MessageParam[] = Array.from({ length: 20 }, (_, i) => ({
+		role: i % 2 === 0 ? "user" : "assistant",
+		content: `${i}`.padEnd(4_000, "x"),
+	}))
+	const modelInfo: ModelInfo = {
+		supportsPromptCache: true,
+		inputPrice: 2.5,
+		outputPrice: 10,
+		cacheWritesPrice: 3.75,
+		cacheReadsPrice: 1.25,
+	}
+	const automatic: TruncationContext = { cacheRule: "automatic", modelInfo, systemPromptTokens: 2_000 }
+	const cacheControl: TruncationContext = { ...automatic, cacheRule: "cache_control" }
+
+	it("should plan the same cut as truncateHalfConversation by default", () => {
+		const plan = getTruncationStrategy().plan(messages, automatic)
+		plan.messages.should.deepEqual(truncateHalfConversation(messages))
+		plan.removedMessages.should.equal(10)
+		plan.reusablePrefixTokens.should.equal(2_944) // system prompt + task message, in 128 token increments
+	})
+
+	it("should cut later to keep more of an automatic cache", () => {
+		const defaultPlan = halfTruncationStrategy.plan(messages, automatic)
+		const plan = cacheAlignedTruncationStrategy.plan(messages, automatic)
+		plan.removedMessages.should.equal(defaultPlan.removedMessages)
+		plan.reusablePrefixTokens.should.be.above(defaultPlan.reusablePrefixTokens)
+		plan.rewriteCost.should.be.below(defaultPlan.rewriteCost)
+		plan.messages[0].should.equal(messages[0])
+		plan.messages.slice(-4).should.deepEqual(messages.slice(-4))
+		plan.messages.forEach((message, i) => message.role.should.equal(i % 2 === 0 ? "user" : "assistant"))
+	})
+
+	it("should fall back to the default cut when caching uses explicit breakpoints", () => {
+		const plan = cacheAlignedTruncationStrategy.plan(messages, cacheControl)
+		plan.should.deepEqual(halfTruncationStrategy.plan(messages, cacheControl))
+		plan.reusablePrefixTokens.should.equal(2_000)
+		plan.rewriteCost.should.equal((plan.rewriteTokens / 1_000_000) * 3.75)
+	})
+
+	it("should not estimate any cost without caching", () => {
+		const plan = cacheAlignedTruncationStrategy.plan(messages, { ...automatic, cacheRule: "none" })
+		plan.rewriteTokens.should.equal(0)
+		plan.rewriteCost.should.equal(0)
+	})
+})
@@ -1,4 +1,9 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import { ModelInfo } from "../../shared/api"
+import { TruncationStrategyName } from "../../shared/ExtensionMessage"
+import { calculateApiCost } from "../../utils/cost"
+import { calculatePotentialCacheTokens, PromptCacheRule } from "../../utils/prompt-cache"
+import { estimateTokens } from "../../utils/prompt-cache-simulator"
 
 /*
 We can't implement a dynamically updating sliding window as it would break prompt cache
@@ -24,3 +29,127 @@ export function truncateHalfConversation(
 
 	return truncatedMessages
 }
+
+export interface TruncationContext {
+	cacheRule: PromptCacheRule
+	modelInfo: ModelInfo
+	systemPromptTokens: number
+}
+
+export interface TruncationPlan {
+	messages: Anthropic.Messages.MessageParam[]
+	removedMessages: number
+	reusablePrefixTokens: number // tokens the provider can still read from its cache after the cut
+	rewriteTokens: number // tokens that will have to be processed (and cached) again on the next request
+	rewriteCost: number
+}
+
+export interface TruncationStrategy {
+	name: TruncationStrategyName
+	displayName: string
+	plan(messages: Anthropic.Messages.MessageParam[], context: TruncationContext): TruncationPlan
+}
+
+// the last assistant/user exchanges are the most relevant context, so we never cut into them
+const MIN_RECENT_MESSAGES = 4
+
+/**
+ * Removes `count` messages starting at `start` and estimates how much of the cache survives the cut.
+ * `start` must be an assistant message (odd index) and `count` even, so the history keeps alternating roles.
+ */
+function planRemoval(
+	messages: Anthropic.Messages.MessageParam[],
+	start: number,
+	count: number,
+	context: TruncationContext,
+): TruncationPlan {
+	const truncatedMessages = [...messages.slice(0, start), ...messages.slice(start + count)]
+	const prefixTokens =
+		context.systemPromptTokens +
+		messages.slice(0, start).reduce((total, message) => total + estimateTokens(message.content), 0)
+	const totalTokens =
+		context.systemPromptTokens +
+		truncatedMessages.reduce((total, message) => total + estimateTokens(message.content), 0)
+
+	let reusablePrefixTokens = 0
+	let rewriteTokens = 0
+	let rewriteCost = 0
+	switch (context.cacheRule) {
+		case "automatic":
+			// any previously sent prefix is still cached, up to the last full 128 token increment before the cut
+			reusablePrefixTokens = calculatePotentialCacheTokens(prefixTokens)
+			rewriteTokens = totalTokens - reusablePrefixTokens
+			rewriteCost = calculateApiCost(context.modelInfo, rewriteTokens, 0)
+			break
+		case "cache_control":
+			// only the system prompt has its own breakpoint, everything after it has to be written again
+			reusablePrefixTokens = context.systemPromptTokens
+			rewriteTokens = totalTokens - reusablePrefixTokens
+			rewriteCost = calculateApiCost(context.modelInfo, 0, 0, rewriteTokens)
+			break
+		case "none":
+			break
+	}
+
+	return {
+		messages: truncatedMessages,
+		removedMessages: count,
+		reusablePrefixTokens,
+		rewriteTokens,
+		rewriteCost,
+	}
+}
+
+export const halfTruncationStrategy: TruncationStrategy = {
+	name: "half",
+	displayName: "truncateHalfConversation",
+	plan: (messages, context) => planRemoval(messages, 1, Math.floor(messages.length / 4) * 2, context),
+}
+
+/*
+Instead of always cutting right after the task message (which throws away the whole cached prefix), this strategy frees the same amount of tokens as truncateHalfConversation but cuts as late as possible, so that providers with automatic prefix caching can keep reading the start of the conversation from their cache. For providers that only cache up to explicit breakpoints, no cut point preserves more than the system prompt, so it behaves like the default.
+*/
+export const cacheAlignedTruncationStrategy: TruncationStrategy = {
+	name: "cache-aligned",
+	displayName: "cache-aligned truncation",
+	plan: (messages, context) => {
+		const defaultPlan = halfTruncationStrategy.plan(messages, context)
+		if (context.cacheRule !== "automatic") {
+			return defaultPlan
+		}
+
+		const messageTokens = messages.map((message) => estimateTokens(message.content))
+		const tokensToFree = messageTokens.slice(1, 1 + defaultPlan.removedMessages).reduce((a, b) => a + b, 0)
+		const lastRemovableIndex = messages.length - MIN_RECENT_MESSAGES - 1
+
+		let bestPlan = defaultPlan
+		for (let start = 1; start <= lastRemovableIndex; start += 2) {
+			let freedTokens = 0
+			for (let end = start; end <= lastRemovableIndex; end++) {
+				freedTokens += messageTokens[end]
+				const count = end - start + 1
+				if (count % 2 === 0 && freedTokens >= tokensToFree) {
+					const plan = planRemoval(messages, start, count, context)
+					if (
+						plan.reusablePrefixTokens > bestPlan.reusablePrefixTokens ||
+						(plan.reusablePrefixTokens === bestPlan.reusablePrefixTokens &&
+							plan.rewriteCost < bestPlan.rewriteCost)
+					) {
+						bestPlan = plan
+					}
+					break
+				}
+			}
+		}
+		return bestPlan
+	},
+}
+
+export function getTruncationStrategy(name?: TruncationStrategyName): TruncationStrategy {
+	switch (name) {
+		case "cache-aligned":
+			return cacheAlignedTruncationStrategy
+		default:
+			return halfTruncationStrategy
+	}
+}
@@ -6,20 +6,42 @@ import pWaitFor from "p-wait-for"
 import * as path from "path"
 import * as vscode from "vscode"
 import { buildApiHandler } from "../../api"
+import { CassetteOptions, CassetteSession, openCassette } from "../../api/cassette"
+import { fetchLlamaCppModels } from "../../api/providers/llamacpp"
+import { fetchLmStudioModels } from "../../api/providers/lmstudio"
+import { fetchOllamaModelInfo } from "../../api/providers/ollama"
 import { downloadTask } from "../../integrations/misc/export-markdown"
+import { downloadPromptCacheAnalytics } from "../../integrations/misc/export-prompt-cache-analytics"
 import { openFile, openImage } from "../../integrations/misc/open-file"
 import { selectImages } from "../../integrations/misc/process-images"
 import { getTheme } from "../../integrations/theme/getTheme"
 import WorkspaceTracker from "../../integrations/workspace/WorkspaceTracker"
 import { McpHub } from "../../services/mcp/McpHub"
-import { ApiProvider, ModelInfo } from "../../shared/api"
+import {
+	ApiConfiguration,
+	ApiConfigurationProfile,
+	ApiProvider,
+	CacheBreakpointPolicy,
+	ModelInfo,
+	ModelInfoOverride,
+	OllamaModelOptions,
+	ReasoningEffort,
+	usesNativeToolCalls,
+} from "../../shared/api"
 import { findLast } from "../../shared/array"
-import { ExtensionMessage } from "../../shared/ExtensionMessage"
+import { ExtensionMessage, TruncationStrategyName } from "../../shared/ExtensionMessage"
 import { HistoryItem } from "../../shared/HistoryItem"
+import { parseModelInfoOverrides, setModelInfoOverride } from "../../shared/modelInfoOverrides"
 import { WebviewMessage } from "../../shared/WebviewMessage"
 import { fileExistsAtPath } from "../../utils/fs"
+import {
+	estimateTokens,
+	formatPromptCacheSimulation,
+	simulatePromptCacheForAllModels,
+} from "../../utils/prompt-cache-simulator"
 import { Cline } from "../Cline"
 import { openMention } from "../mentions"
+import { addUserInstructions, SYSTEM_PROMPT } from "../prompts/system"
 import { getNonce } from "./getNonce"
 import { getUri } from "./getUri"
 import { AutoApprovalSettings, DEFAULT_AUTO_APPROVAL_SETTINGS } from "../../shared/AutoApprovalSettings"
@@ -39,6 +61,9 @@ type SecretKey =
 	| "openAiApiKey"
 	| "geminiApiKey"
 	| "openAiNativeApiKey"
+	| "deepSeekApiKey"
+	| "fallbackApiConfigurations"
+	| "apiConfigurationProfiles"
 type GlobalStateKey =
 	| "apiProvider"
 	| "apiModelId"
@@ -46,6 +71,7 @@ type GlobalStateKey =
 	| "awsUseCrossRegionInference"
 	| "vertexProjectId"
 	| "vertexRegion"
+	| "vertexBaseUrl"
 	| "lastShownAnnouncementId"
 	| "customInstructions"
 	| "taskHistory"
@@ -53,13 +79,31 @@ type GlobalStateKey =
 	| "openAiModelId"
 	| "ollamaModelId"
 	| "ollamaBaseUrl"
+	| "ollamaNativeApi"
+	| "ollamaModelOptions"
 	| "lmStudioModelId"
 	| "lmStudioBaseUrl"
+	| "lmStudioModelInfo"
+	| "llamaCppBaseUrl"
+	| "llamaCppModelId"
+	| "llamaCppModelInfo"
 	| "anthropicBaseUrl"
+	| "geminiBaseUrl"
+	| "deepSeekBaseUrl"
+	| "cacheBreakpointPolicy"
+	| "cacheAwareEnvironmentDetails"
+	| "nativeToolCalls"
+	| "modelInfoOverrides"
+	| "scriptedResponsesPath"
+	| "reasoningEffort"
+	| "currentApiConfigurationProfile"
 	| "azureApiVersion"
 	| "openRouterModelId"
 	| "openRouterModelInfo"
 	| "autoApprovalSettings"
+	| "truncationStrategy"
+	| "condenseOnCacheExpiry"
+	| "dailySpend"
 
 export const GlobalFileNames = {
 	apiConversationHistory: "api_conversation_history.json",
@@ -78,6 +122,7 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 	private cline?: Cline
 	private workspaceTracker?: WorkspaceTracker
 	mcpHub?: McpHub
+	cassette?: CassetteSession // records or replays the API requests of tasks, set through the cassette commands
 	private latestAnnouncementId = "dec-17-2024" // update to some unique identifier when we add a new announcement
 
 	constructor(
@@ -200,22 +245,69 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 
 	async initClineWithTask(task?: string, images?: string[]) {
 		await this.clearTask() // ensures that an exising task doesn't exist before starting a new one, although this shouldn't be possible since user must clear task before starting a new one
-		const { apiConfiguration, customInstructions, autoApprovalSettings } = await this.getState()
-		this.cline = new Cline(this, apiConfiguration, autoApprovalSettings, customInstructions, task, images)
+		const {
+			apiConfiguration,
+			currentApiConfigurationProfile,
+			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
+			autoApprovalSettings,
+		} = await this.getState()
+		this.cline = new Cline(
+			this,
+			apiConfiguration,
+			autoApprovalSettings,
+			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
+			currentApiConfigurationProfile,
+			task,
+			images,
+		)
 	}
 
 	async initClineWithHistoryItem(historyItem: HistoryItem) {
 		await this.clearTask()
-		const { apiConfiguration, customInstructions, autoApprovalSettings } = await this.getState()
+		const {
+			apiConfiguration,
+			apiConfigurationProfiles,
+			currentApiConfigurationProfile,
+			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
+			autoApprovalSettings,
+		} = await this.getState()
 		this.cline = new Cline(
 			this,
 			apiConfiguration,
 			autoApprovalSettings,
 			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
+			currentApiConfigurationProfile,
 			undefined,
 			undefined,
 			historyItem,
 		)
+
+		// the task may have been run with different settings, e.g. a local model for a task that needs a more capable one
+		const originalProfile = historyItem.apiConfigurationProfile
+		if (
+			originalProfile &&
+			originalProfile !== currentApiConfigurationProfile &&
+			apiConfigurationProfiles.some((profile) => profile.name === originalProfile)
+		) {
+			vscode.window
+				.showInformationMessage(
+					`This task was run with the "${originalProfile}" API profile.`,
+					`Switch to "${originalProfile}"`,
+				)
+				.then((selection) => {
+					if (selection) {
+						this.loadApiConfigurationProfile(originalProfile)
+					}
+				})
+		}
 	}
 
 	// Send any JSON serializable data to the react app
@@ -356,73 +448,55 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 						break
 					case "apiConfiguration":
 						if (message.apiConfiguration) {
-							const {
-								apiProvider,
-								apiModelId,
-								apiKey,
-								openRouterApiKey,
-								awsAccessKey,
-								awsSecretKey,
-								awsSessionToken,
-								awsRegion,
-								awsUseCrossRegionInference,
-								vertexProjectId,
-								vertexRegion,
-								openAiBaseUrl,
-								openAiApiKey,
-								openAiModelId,
-								ollamaModelId,
-								ollamaBaseUrl,
-								lmStudioModelId,
-								lmStudioBaseUrl,
-								anthropicBaseUrl,
-								geminiApiKey,
-								openAiNativeApiKey,
-								azureApiVersion,
-								openRouterModelId,
-								openRouterModelInfo,
-							} = message.apiConfiguration
-							await this.updateGlobalState("apiProvider", apiProvider)
-							await this.updateGlobalState("apiModelId", apiModelId)
-							await this.storeSecret("apiKey", apiKey)
-							await this.storeSecret("openRouterApiKey", openRouterApiKey)
-							await this.storeSecret("awsAccessKey", awsAccessKey)
-							await this.storeSecret("awsSecretKey", awsSecretKey)
-							await this.storeSecret("awsSessionToken", awsSessionToken)
-							await this.updateGlobalState("awsRegion", awsRegion)
-							await this.updateGlobalState("awsUseCrossRegionInference", awsUseCrossRegionInference)
-							await this.updateGlobalState("vertexProjectId", vertexProjectId)
-							await this.updateGlobalState("vertexRegion", vertexRegion)
-							await this.updateGlobalState("openAiBaseUrl", openAiBaseUrl)
-							await this.storeSecret("openAiApiKey", openAiApiKey)
-							await this.updateGlobalState("openAiModelId", openAiModelId)
-							await this.updateGlobalState("ollamaModelId", ollamaModelId)
-							await this.updateGlobalState("ollamaBaseUrl", ollamaBaseUrl)
-							await this.updateGlobalState("lmStudioModelId", lmStudioModelId)
-							await this.updateGlobalState("lmStudioBaseUrl", lmStudioBaseUrl)
-							await this.updateGlobalState("anthropicBaseUrl", anthropicBaseUrl)
-							await this.storeSecret("geminiApiKey", geminiApiKey)
-							await this.storeSecret("openAiNativeApiKey", openAiNativeApiKey)
-							await this.updateGlobalState("azureApiVersion", azureApiVersion)
-							await this.updateGlobalState("openRouterModelId", openRouterModelId)
-							await this.updateGlobalState("openRouterModelInfo", openRouterModelInfo)
-							if (this.cline) {
-								try {
-									this.cline.api = buildApiHandler(message.apiConfiguration)
-									// Clear any previous error if connection succeeds
-									message.apiConfiguration.error = undefined;
-								} catch (error) {
-									// Capture provider initialization errors
-									message.apiConfiguration.error = error instanceof Error ? error.message : 'Failed to initialize API provider';
-									console.error('API provider initialization error:', error);
-								}
+							await this.updateApiConfiguration(message.apiConfiguration)
+							// edits in settings apply to the selected profile
+							const { currentApiConfigurationProfile } = await this.getState()
+							if (currentApiConfigurationProfile) {
+								await this.saveApiConfigurationProfile(currentApiConfigurationProfile)
+							}
+						}
+						await this.postStateToWebview()
+						break
+					case "saveApiConfigurationProfile":
+						if (message.text) {
+							if (message.apiConfiguration) {
+								await this.updateApiConfiguration(message.apiConfiguration)
 							}
+							await this.saveApiConfigurationProfile(message.text)
+						}
+						await this.postStateToWebview()
+						break
+					case "loadApiConfigurationProfile":
+						if (message.text) {
+							await this.loadApiConfigurationProfile(message.text)
+						}
+						break
+					case "importModelInfoOverrides":
+						await this.importModelInfoOverrides()
+						break
+					case "deleteApiConfigurationProfile":
+						if (message.text) {
+							await this.deleteApiConfigurationProfile(message.text)
 						}
 						await this.postStateToWebview()
 						break
 					case "customInstructions":
 						await this.updateCustomInstructions(message.text)
 						break
+					case "truncationStrategy":
+						await this.updateGlobalState("truncationStrategy", message.text)
+						if (this.cline) {
+							this.cline.truncationStrategy = message.text as TruncationStrategyName | undefined
+						}
+						await this.postStateToWebview()
+						break
+					case "condenseOnCacheExpiry":
+						await this.updateGlobalState("condenseOnCacheExpiry", message.bool)
+						if (this.cline) {
+							this.cline.condenseOnCacheExpiry = message.bool
+						}
+						await this.postStateToWebview()
+						break
 					case "autoApprovalSettings":
 						if (message.autoApprovalSettings) {
 							await this.updateGlobalState("autoApprovalSettings", message.autoApprovalSettings)
@@ -463,6 +537,11 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 					case "exportTaskWithId":
 						this.exportTaskWithId(message.text!)
 						break
+					case "exportPromptCacheAnalytics":
+						if (this.cline) {
+							downloadPromptCacheAnalytics(this.cline.taskId, this.cline.clineMessages)
+						}
+						break
 					case "resetState":
 						await this.resetState()
 						break
@@ -470,10 +549,21 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 						const ollamaModels = await this.getOllamaModels(message.text)
 						this.postMessageToWebview({ type: "ollamaModels", ollamaModels })
 						break
+					case "requestOllamaModelInfo":
+						if (message.apiConfiguration?.ollamaModelId) {
+							const { ollamaBaseUrl, ollamaModelId } = message.apiConfiguration
+							const ollamaModelInfo = await fetchOllamaModelInfo(ollamaBaseUrl, ollamaModelId).catch(() => ({}))
+							this.postMessageToWebview({ type: "ollamaModelInfo", ollamaModelInfo })
+						}
+						break
 					case "requestLmStudioModels":
 						const lmStudioModels = await this.getLmStudioModels(message.text)
 						this.postMessageToWebview({ type: "lmStudioModels", lmStudioModels })
 						break
+					case "requestLlamaCppModels":
+						const llamaCppModels = await this.getLlamaCppModels(message.text)
+						this.postMessageToWebview({ type: "llamaCppModels", llamaCppModels })
+						break
 					case "refreshOpenRouterModels":
 						await this.refreshOpenRouterModels()
 						break
@@ -528,6 +618,241 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 		)
 	}
 
+	async updateApiConfiguration(apiConfiguration: ApiConfiguration) {
+		const {
+			apiProvider,
+			apiModelId,
+			apiKey,
+			openRouterApiKey,
+			awsAccessKey,
+			awsSecretKey,
+			awsSessionToken,
+			awsRegion,
+			awsUseCrossRegionInference,
+			vertexProjectId,
+			vertexRegion,
+			vertexBaseUrl,
+			openAiBaseUrl,
+			openAiApiKey,
+			openAiModelId,
+			ollamaModelId,
+			ollamaBaseUrl,
+			ollamaNativeApi,
+			ollamaModelOptions,
+			lmStudioModelId,
+			lmStudioBaseUrl,
+			lmStudioModelInfo,
+			llamaCppBaseUrl,
+			llamaCppModelId,
+			llamaCppModelInfo,
+			anthropicBaseUrl,
+			geminiApiKey,
+			geminiBaseUrl,
+			openAiNativeApiKey,
+			deepSeekApiKey,
+			deepSeekBaseUrl,
+			azureApiVersion,
+			cacheBreakpointPolicy,
+			cacheAwareEnvironmentDetails,
+			nativeToolCalls,
+			modelInfoOverrides,
+			scriptedResponsesPath,
+			reasoningEffort,
+			fallbackApiConfigurations,
+			openRouterModelId,
+			openRouterModelInfo,
+		} = apiConfiguration
+		await this.updateGlobalState("apiProvider", apiProvider)
+		await this.updateGlobalState("apiModelId", apiModelId)
+		await this.storeSecret("apiKey", apiKey)
+		await this.storeSecret("openRouterApiKey", openRouterApiKey)
+		await this.storeSecret("awsAccessKey", awsAccessKey)
+		await this.storeSecret("awsSecretKey", awsSecretKey)
+		await this.storeSecret("awsSessionToken", awsSessionToken)
+		await this.updateGlobalState("awsRegion", awsRegion)
+		await this.updateGlobalState("awsUseCrossRegionInference", awsUseCrossRegionInference)
+		await this.updateGlobalState("vertexProjectId", vertexProjectId)
+		await this.updateGlobalState("vertexRegion", vertexRegion)
+		await this.updateGlobalState("vertexBaseUrl", vertexBaseUrl)
+		await this.updateGlobalState("openAiBaseUrl", openAiBaseUrl)
+		await this.storeSecret("openAiApiKey", openAiApiKey)
+		await this.updateGlobalState("openAiModelId", openAiModelId)
+		await this.updateGlobalState("ollamaModelId", ollamaModelId)
+		await this.updateGlobalState("ollamaBaseUrl", ollamaBaseUrl)
+		await this.updateGlobalState("ollamaNativeApi", ollamaNativeApi)
+		await this.updateGlobalState("ollamaModelOptions", ollamaModelOptions)
+		await this.updateGlobalState("lmStudioModelId", lmStudioModelId)
+		await this.updateGlobalState("lmStudioBaseUrl", lmStudioBaseUrl)
+		await this.updateGlobalState("lmStudioModelInfo", lmStudioModelInfo)
+		await this.updateGlobalState("llamaCppBaseUrl", llamaCppBaseUrl)
+		await this.updateGlobalState("llamaCppModelId", llamaCppModelId)
+		await this.updateGlobalState("llamaCppModelInfo", llamaCppModelInfo)
+		await this.updateGlobalState("anthropicBaseUrl", anthropicBaseUrl)
+		await this.storeSecret("geminiApiKey", geminiApiKey)
+		await this.updateGlobalState("geminiBaseUrl", geminiBaseUrl)
+		await this.storeSecret("openAiNativeApiKey", openAiNativeApiKey)
+		await this.storeSecret("deepSeekApiKey", deepSeekApiKey)
+		await this.updateGlobalState("deepSeekBaseUrl", deepSeekBaseUrl)
+		await this.updateGlobalState("azureApiVersion", azureApiVersion)
+		await this.updateGlobalState("cacheBreakpointPolicy", cacheBreakpointPolicy)
+		await this.updateGlobalState("cacheAwareEnvironmentDetails", cacheAwareEnvironmentDetails)
+		await this.updateGlobalState("nativeToolCalls", nativeToolCalls)
+		await this.updateGlobalState("modelInfoOverrides", modelInfoOverrides?.length ? modelInfoOverrides : undefined)
+		await this.updateGlobalState("scriptedResponsesPath", scriptedResponsesPath)
+		await this.updateGlobalState("reasoningEffort", reasoningEffort)
+		// fallbacks include API keys, so the whole chain is kept in secret storage
+		await this.storeSecret(
+			"fallbackApiConfigurations",
+			fallbackApiConfigurations?.length ? JSON.stringify(fallbackApiConfigurations) : undefined,
+		)
+		await this.updateGlobalState("openRouterModelId", openRouterModelId)
+		await this.updateGlobalState("openRouterModelInfo", openRouterModelInfo)
+		if (this.cline) {
+			try {
+				this.cline.api = buildApiHandler(apiConfiguration, this.cassette)
+				this.cline.apiProvider = apiConfiguration.apiProvider
+				this.cline.nativeToolCalls = usesNativeToolCalls(apiConfiguration)
+				// Clear any previous error if connection succeeds
+				apiConfiguration.error = undefined;
+			} catch (error) {
+				// Capture provider initialization errors
+				apiConfiguration.error = error instanceof Error ? error.message : 'Failed to initialize API provider';
+				console.error('API provider initialization error:', error);
+			}
+		}
+	}
+
+	// API configuration profiles
+
+	async getApiConfigurationProfiles(): Promise<ApiConfigurationProfile[]> {
+		const profiles = (await this.getSecret("apiConfigurationProfiles")) as string | undefined
+		return profiles ? JSON.parse(profiles) : []
+	}
+
+	// profiles include API keys, so they are kept in secret storage like the fallback providers
+	private async storeApiConfigurationProfiles(profiles: ApiConfigurationProfile[]) {
+		await this.storeSecret("apiConfigurationProfiles", profiles.length ? JSON.stringify(profiles) : undefined)
+	}
+
+	// saves the current settings under the name and selects it, replacing an existing profile with the same name
+	async saveApiConfigurationProfile(name: string) {
+		const { apiConfiguration, apiConfigurationProfiles } = await this.getState()
+		const profile: ApiConfigurationProfile = { name, apiConfiguration }
+		const index = apiConfigurationProfiles.findIndex((p) => p.name === name)
+		await this.storeApiConfigurationProfiles(
+			index === -1
+				? [...apiConfigurationProfiles, profile]
+				: apiConfigurationProfiles.map((p, i) => (i === index ? profile : p)),
+		)
+		await this.updateGlobalState("currentApiConfigurationProfile", name)
+		if (this.cline) {
+			this.cline.apiConfigurationProfile = name
+		}
+	}
+
+	async loadApiConfigurationProfile(name: string) {
+		const profile = (await this.getApiConfigurationProfiles()).find((p) => p.name === name)
+		if (!profile) {
+			return
+		}
+		// the model overrides describe the models rather than the profile, so they're kept when switching
+		const { apiConfiguration } = await this.getState()
+		await this.updateApiConfiguration({
+			...profile.apiConfiguration,
+			modelInfoOverrides: apiConfiguration.modelInfoOverrides,
+		})
+		await this.updateGlobalState("currentApiConfigurationProfile", name)
+		if (this.cline) {
+			this.cline.apiConfigurationProfile = name
+		}
+		await this.postStateToWebview()
+	}
+
+	// the current settings stay as they are, they just aren't saved to a profile anymore
+	async deleteApiConfigurationProfile(name: string) {
+		const { apiConfigurationProfiles, currentApiConfigurationProfile } = await this.getState()
+		await this.storeApiConfigurationProfiles(apiConfigurationProfiles.filter((p) => p.name !== name))
+		if (currentApiConfigurationProfile === name) {
+			await this.updateGlobalState("currentApiConfigurationProfile", undefined)
+			if (this.cline) {
+				this.cline.apiConfigurationProfile = undefined
+			}
+		}
+	}
+
+	// Model overrides
+
+	async importModelInfoOverrides() {
+		const fileUris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: "Import",
+			filters: { "Model overrides": ["json"] },
+		})
+		if (!fileUris?.length) {
+			return
+		}
+		let imported: ModelInfoOverride[]
+		try {
+			imported = parseModelInfoOverrides(await fs.readFile(fileUris[0].fsPath, "utf8"))
+		} catch (error) {
+			vscode.window.showErrorMessage(
+				`Failed to import model overrides: ${error instanceof Error ? error.message : String(error)}`,
+			)
+			return
+		}
+		const { apiConfiguration } = await this.getState()
+		const modelInfoOverrides = imported.reduce(setModelInfoOverride, apiConfiguration.modelInfoOverrides ?? [])
+		await this.updateApiConfiguration({ ...apiConfiguration, modelInfoOverrides })
+		await this.postStateToWebview()
+		vscode.window.showInformationMessage(`Imported ${imported.length} model override(s).`)
+	}
+
+	// API cassettes
+
+	// applies to new tasks, and to the current task from its next request
+	async startCassette(mode: CassetteOptions["mode"]) {
+		const filters = { Cassettes: ["json"] }
+		const uri =
+			mode === "record"
+				? await vscode.window.showSaveDialog({ filters, saveLabel: "Record" })
+				: (await vscode.window.showOpenDialog({ canSelectMany: false, filters, openLabel: "Replay" }))?.[0]
+		if (!uri) {
+			return
+		}
+		const { apiConfiguration } = await this.getState()
+		let cassette: CassetteSession
+		try {
+			cassette = openCassette({ mode, path: uri.fsPath })
+			const api = buildApiHandler(apiConfiguration, cassette)
+			if (this.cline) {
+				this.cline.api = api
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(
+				`Failed to ${mode} cassette: ${error instanceof Error ? error.message : String(error)}`,
+			)
+			return
+		}
+		this.cassette = cassette
+		vscode.window.showInformationMessage(
+			mode === "record"
+				? `Recording API requests to ${path.basename(uri.fsPath)}`
+				: `Replaying API requests from ${path.basename(uri.fsPath)}`,
+		)
+	}
+
+	async stopCassette() {
+		if (!this.cassette) {
+			return
+		}
+		this.cassette = undefined
+		if (this.cline) {
+			const { apiConfiguration } = await this.getState()
+			this.cline.api = buildApiHandler(apiConfiguration)
+		}
+		vscode.window.showInformationMessage("Stopped the API cassette")
+	}
+
 	async updateCustomInstructions(instructions?: string) {
 		// User may be clearing the field
 		await this.updateGlobalState("customInstructions", instructions || undefined)
@@ -578,18 +903,25 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 
 	async getLmStudioModels(baseUrl?: string) {
 		try {
-			if (!baseUrl) {
-				baseUrl = "http://localhost:1234"
+			if (baseUrl && !URL.canParse(baseUrl)) {
+				return {}
 			}
-			if (!URL.canParse(baseUrl)) {
-				return []
+			return await fetchLmStudioModels(baseUrl)
+		} catch (error) {
+			return {}
+		}
+	}
+
+	// llama.cpp
+
+	async getLlamaCppModels(baseUrl?: string) {
+		try {
+			if (!baseUrl || !URL.canParse(baseUrl)) {
+				return {}
 			}
-			const response = await axios.get(`${baseUrl}/v1/models`)
-			const modelsArray = response.data?.data?.map((model: any) => model.id) || []
-			const models = [...new Set<string>(modelsArray)]
-			return models
+			return await fetchLlamaCppModels(baseUrl)
 		} catch (error) {
-			return []
+			return {}
 		}
 	}
 
@@ -614,7 +946,7 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 		await this.storeSecret("openRouterApiKey", apiKey)
 		await this.postStateToWebview()
 		if (this.cline) {
-			this.cline.api = buildApiHandler({ apiProvider: openrouter, openRouterApiKey: apiKey })
+			this.cline.api = buildApiHandler({ apiProvider: openrouter, openRouterApiKey: apiKey }, this.cassette)
 		}
 		// await this.postMessageToWebview({ type: "action", action: "settingsButtonClicked" }) // bad ux if user is on welcome
 	}
@@ -795,6 +1127,45 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 		await downloadTask(historyItem.ts, apiConversationHistory)
 	}
 
+	async simulatePromptCache() {
+		const { taskHistory, customInstructions } = await this.getState()
+		const items = (taskHistory || [])
+			.filter((item) => item.ts && item.task)
+			.sort((a, b) => b.ts - a.ts)
+			.map((item) => ({
+				label: item.task.split("\n")[0],
+				description: new Date(item.ts).toLocaleString(),
+				id: item.id,
+			}))
+		if (items.length === 0) {
+			vscode.window.showInformationMessage("No saved tasks to simulate")
+			return
+		}
+		const selected = await vscode.window.showQuickPick(items, {
+			placeHolder: "Select a task to replay under each provider's prompt caching rules",
+		})
+		if (!selected || !this.mcpHub) {
+			return
+		}
+		const { historyItem, apiConversationHistory } = await this.getTaskWithId(selected.id)
+
+		// the system prompt isn't saved with the task, so we estimate it from the current one
+		const cwd =
+			vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0) ??
+			path.join(os.homedir(), "Desktop")
+		let systemPrompt = await SYSTEM_PROMPT(cwd, true, this.mcpHub)
+		if (customInstructions) {
+			systemPrompt += addUserInstructions(customInstructions)
+		}
+
+		const results = simulatePromptCacheForAllModels(estimateTokens(systemPrompt), apiConversationHistory)
+		const document = await vscode.workspace.openTextDocument({
+			content: formatPromptCacheSimulation(historyItem.task, results),
+			language: "markdown",
+		})
+		await vscode.window.showTextDocument(document, { preview: true })
+	}
+
 	async deleteTaskWithId(id: string) {
 		if (id === this.cline?.taskId) {
 			await this.clearTask()
@@ -836,17 +1207,31 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 	}
 
 	async getStateToPostToWebview() {
-		const { apiConfiguration, lastShownAnnouncementId, customInstructions, taskHistory, autoApprovalSettings } =
-			await this.getState()
+		const {
+			apiConfiguration,
+			apiConfigurationProfiles,
+			currentApiConfigurationProfile,
+			lastShownAnnouncementId,
+			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
+			taskHistory,
+			autoApprovalSettings,
+		} = await this.getState()
 		return {
 			version: this.context.extension?.packageJSON?.version ?? "",
 			apiConfiguration,
+			apiConfigurationProfiles: apiConfigurationProfiles.map((profile) => profile.name),
+			currentApiConfigurationProfile,
 			customInstructions,
 			uriScheme: vscode.env.uriScheme,
 			clineMessages: this.cline?.clineMessages || [],
 			taskHistory: (taskHistory || []).filter((item) => item.ts && item.task).sort((a, b) => b.ts - a.ts),
 			shouldShowAnnouncement: lastShownAnnouncementId !== this.latestAnnouncementId,
 			autoApprovalSettings,
+			truncationStrategy,
+			condenseOnCacheExpiry,
+			promptCacheStatus: this.cline?.promptCacheStatus,
 		}
 	}
 
@@ -914,21 +1299,42 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 			awsUseCrossRegionInference,
 			vertexProjectId,
 			vertexRegion,
+			vertexBaseUrl,
 			openAiBaseUrl,
 			openAiApiKey,
 			openAiModelId,
 			ollamaModelId,
 			ollamaBaseUrl,
+			ollamaNativeApi,
+			ollamaModelOptions,
 			lmStudioModelId,
 			lmStudioBaseUrl,
+			lmStudioModelInfo,
+			llamaCppBaseUrl,
+			llamaCppModelId,
+			llamaCppModelInfo,
 			anthropicBaseUrl,
 			geminiApiKey,
+			geminiBaseUrl,
 			openAiNativeApiKey,
+			deepSeekApiKey,
+			deepSeekBaseUrl,
 			azureApiVersion,
+			cacheBreakpointPolicy,
+			cacheAwareEnvironmentDetails,
+			nativeToolCalls,
+			modelInfoOverrides,
+			scriptedResponsesPath,
+			reasoningEffort,
+			fallbackApiConfigurations,
 			openRouterModelId,
 			openRouterModelInfo,
+			apiConfigurationProfiles,
+			currentApiConfigurationProfile,
 			lastShownAnnouncementId,
 			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
 			taskHistory,
 			autoApprovalSettings,
 		] = await Promise.all([
@@ -943,21 +1349,42 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 			this.getGlobalState("awsUseCrossRegionInference") as Promise<boolean | undefined>,
 			this.getGlobalState("vertexProjectId") as Promise<string | undefined>,
 			this.getGlobalState("vertexRegion") as Promise<string | undefined>,
+			this.getGlobalState("vertexBaseUrl") as Promise<string | undefined>,
 			this.getGlobalState("openAiBaseUrl") as Promise<string | undefined>,
 			this.getSecret("openAiApiKey") as Promise<string | undefined>,
 			this.getGlobalState("openAiModelId") as Promise<string | undefined>,
 			this.getGlobalState("ollamaModelId") as Promise<string | undefined>,
 			this.getGlobalState("ollamaBaseUrl") as Promise<string | undefined>,
+			this.getGlobalState("ollamaNativeApi") as Promise<boolean | undefined>,
+			this.getGlobalState("ollamaModelOptions") as Promise<Record<string, OllamaModelOptions> | undefined>,
 			this.getGlobalState("lmStudioModelId") as Promise<string | undefined>,
 			this.getGlobalState("lmStudioBaseUrl") as Promise<string | undefined>,
+			this.getGlobalState("lmStudioModelInfo") as Promise<Partial<ModelInfo> | undefined>,
+			this.getGlobalState("llamaCppBaseUrl") as Promise<string | undefined>,
+			this.getGlobalState("llamaCppModelId") as Promise<string | undefined>,
+			this.getGlobalState("llamaCppModelInfo") as Promise<Partial<ModelInfo> | undefined>,
 			this.getGlobalState("anthropicBaseUrl") as Promise<string | undefined>,
 			this.getSecret("geminiApiKey") as Promise<string | undefined>,
+			this.getGlobalState("geminiBaseUrl") as Promise<string | undefined>,
 			this.getSecret("openAiNativeApiKey") as Promise<string | undefined>,
+			this.getSecret("deepSeekApiKey") as Promise<string | undefined>,
+			this.getGlobalState("deepSeekBaseUrl") as Promise<string | undefined>,
 			this.getGlobalState("azureApiVersion") as Promise<string | undefined>,
+			this.getGlobalState("cacheBreakpointPolicy") as Promise<CacheBreakpointPolicy | undefined>,
+			this.getGlobalState("cacheAwareEnvironmentDetails") as Promise<boolean | undefined>,
+			this.getGlobalState("nativeToolCalls") as Promise<boolean | undefined>,
+			this.getGlobalState("modelInfoOverrides") as Promise<ModelInfoOverride[] | undefined>,
+			this.getGlobalState("scriptedResponsesPath") as Promise<string | undefined>,
+			this.getGlobalState("reasoningEffort") as Promise<ReasoningEffort | undefined>,
+			this.getSecret("fallbackApiConfigurations") as Promise<string | undefined>,
 			this.getGlobalState("openRouterModelId") as Promise<string | undefined>,
 			this.getGlobalState("openRouterModelInfo") as Promise<ModelInfo | undefined>,
+			this.getApiConfigurationProfiles(),
+			this.getGlobalState("currentApiConfigurationProfile") as Promise<string | undefined>,
 			this.getGlobalState("lastShownAnnouncementId") as Promise<string | undefined>,
 			this.getGlobalState("customInstructions") as Promise<string | undefined>,
+			this.getGlobalState("truncationStrategy") as Promise<TruncationStrategyName | undefined>,
+			this.getGlobalState("condenseOnCacheExpiry") as Promise<boolean | undefined>,
 			this.getGlobalState("taskHistory") as Promise<HistoryItem[] | undefined>,
 			this.getGlobalState("autoApprovalSettings") as Promise<AutoApprovalSettings | undefined>,
 		])
@@ -989,22 +1416,43 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 				awsUseCrossRegionInference,
 				vertexProjectId,
 				vertexRegion,
+				vertexBaseUrl,
 				openAiBaseUrl,
 				openAiApiKey,
 				openAiModelId,
 				ollamaModelId,
 				ollamaBaseUrl,
+				ollamaNativeApi,
+				ollamaModelOptions,
 				lmStudioModelId,
 				lmStudioBaseUrl,
+				lmStudioModelInfo,
+				llamaCppBaseUrl,
+				llamaCppModelId,
+				llamaCppModelInfo,
 				anthropicBaseUrl,
 				geminiApiKey,
+				geminiBaseUrl,
 				openAiNativeApiKey,
+				deepSeekApiKey,
+				deepSeekBaseUrl,
 				azureApiVersion,
+				cacheBreakpointPolicy,
+				cacheAwareEnvironmentDetails,
+				nativeToolCalls,
+				modelInfoOverrides,
+				scriptedResponsesPath,
+				reasoningEffort,
+				fallbackApiConfigurations: fallbackApiConfigurations ? JSON.parse(fallbackApiConfigurations) : undefined,
 				openRouterModelId,
 				openRouterModelInfo,
 			},
+			apiConfigurationProfiles,
+			currentApiConfigurationProfile,
 			lastShownAnnouncementId,
 			customInstructions,
+			truncationStrategy,
+			condenseOnCacheExpiry,
 			taskHistory,
 			autoApprovalSettings: autoApprovalSettings || DEFAULT_AUTO_APPROVAL_SETTINGS, // default value can be 0 or empty string
 		}
@@ -1022,6 +1470,19 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 		return history
 	}
 
+	// Daily spend
+
+	// spend is shared across tasks for the daily budget, and starts over on each local calendar day
+	async getDailySpend(): Promise<number> {
+		const dailySpend = (await this.getGlobalState("dailySpend")) as { date: string; cost: number } | undefined
+		return dailySpend?.date === new Date().toDateString() ? dailySpend.cost : 0
+	}
+
+	async addDailySpend(cost: number) {
+		const spent = await this.getDailySpend()
+		await this.updateGlobalState("dailySpend", { date: new Date().toDateString(), cost: spent + cost })
+	}
+
 	// global
 
 	async updateGlobalState(key: GlobalStateKey, value: any) {
@@ -1082,6 +1543,9 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 			"openAiApiKey",
 			"geminiApiKey",
 			"openAiNativeApiKey",
+			"deepSeekApiKey",
+			"fallbackApiConfigurations",
+			"apiConfigurationProfiles",
 		]
 		for (const key of secretKeys) {
 			await this.storeSecret(key, undefined)
@@ -11,6 +11,13 @@ export interface ClineAPI {
 	 */
 	getCustomInstructions(): Promise<string | undefined>
 
+	/**
+	 * Updates the API configuration in the global storage, e.g. `{ apiProvider: "scripted", scriptedResponsesPath: "/path/to/script.yaml" }`.
+	 * Settings and API keys that aren't given keep their current values.
+	 * @param configuration The API configuration settings to change, with the same keys as the settings.
+	 */
+	setApiConfiguration(configuration: Record<string, unknown>): Promise<void>
+
 	/**
 	 * Starts a new task with an optional initial message and images.
 	 * @param task Optional initial task message.
@@ -25,6 +32,14 @@ export interface ClineAPI {
 	 */
 	sendMessage(message?: string, images?: string[]): Promise<void>
 
+	/**
+	 * Retrieves the messages of the current task as shown in the chat.
+	 * @returns The messages, or an empty array if there is no task.
+	 */
+	getMessages(): Promise<
+		{ ts: number; type: "ask" | "say"; ask?: string; say?: string; text?: string; partial?: boolean }[]
+	>
+
 	/**
 	 * Simulates pressing the primary button in the chat interface.
 	 */
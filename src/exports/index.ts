@@ -1,5 +1,6 @@
 import * as vscode from "vscode"
 import { ClineProvider } from "../core/webview/ClineProvider"
+import { ApiConfiguration } from "../shared/api"
 import { ClineAPI } from "./cline"
 
 export function createClineAPI(outputChannel: vscode.OutputChannel, sidebarProvider: ClineProvider): ClineAPI {
@@ -13,6 +14,14 @@ export function createClineAPI(outputChannel: vscode.OutputChannel, sidebarProvi
 			return (await sidebarProvider.getGlobalState("customInstructions")) as string | undefined
 		},
 
+		setApiConfiguration: async (configuration: Record<string, unknown>) => {
+			// settings that aren't given are kept, since updateApiConfiguration clears every key it isn't passed, API keys included
+			const { apiConfiguration } = await sidebarProvider.getState()
+			await sidebarProvider.updateApiConfiguration({ ...apiConfiguration, ...configuration } as ApiConfiguration)
+			await sidebarProvider.postStateToWebview()
+			outputChannel.appendLine(`API configuration set to provider ${configuration.apiProvider}`)
+		},
+
 		startNewTask: async (task?: string, images?: string[]) => {
 			outputChannel.appendLine("Starting new task")
 			await sidebarProvider.clearTask()
@@ -41,6 +50,10 @@ export function createClineAPI(outputChannel: vscode.OutputChannel, sidebarProvi
 			})
 		},
 
+		getMessages: async () => {
+			return (await sidebarProvider.getStateToPostToWebview()).clineMessages
+		},
+
 		pressPrimaryButton: async () => {
 			outputChannel.appendLine("Pressing primary button")
 			await sidebarProvider.postMessageToWebview({
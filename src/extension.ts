@@ -98,6 +98,24 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 	)
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand("cline.simulatePromptCache", async () => {
+			await sidebarProvider.simulatePromptCache()
+		}),
+	)
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("cline.recordCassette", async () => {
+			await sidebarProvider.startCassette("record")
+		}),
+		vscode.commands.registerCommand("cline.replayCassette", async () => {
+			await sidebarProvider.startCassette("replay")
+		}),
+		vscode.commands.registerCommand("cline.stopCassette", async () => {
+			await sidebarProvider.stopCassette()
+		}),
+	)
+
 	/*
 	We use the text document content provider API to show the left side for diff view by creating a virtual document for the original content. This makes it readonly so users know to edit the right side if they want to keep their changes.
 
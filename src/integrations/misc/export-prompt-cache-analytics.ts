@@ -0,0 +1,19 @@
+import os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+import { ClineMessage } from "../../shared/ExtensionMessage"
+import { formatPromptCacheAnalyticsCsv, getPromptCacheAnalytics } from "../../shared/getPromptCacheAnalytics"
+
+export async function downloadPromptCacheAnalytics(taskId: string, clineMessages: ClineMessage[]) {
+	const csvContent = formatPromptCacheAnalyticsCsv(getPromptCacheAnalytics(clineMessages))
+
+	const saveUri = await vscode.window.showSaveDialog({
+		filters: { CSV: ["csv"] },
+		defaultUri: vscode.Uri.file(path.join(os.homedir(), "Downloads", `cline_prompt_cache_${taskId}.csv`)),
+	})
+
+	if (saveUri) {
+		await vscode.workspace.fs.writeFile(saveUri, Buffer.from(csvContent))
+		vscode.window.showTextDocument(saveUri, { preview: true })
+	}
+}
@@ -12,8 +12,14 @@ export interface AutoApprovalSettings {
 	// Global settings
 	maxRequests: number // Maximum number of auto-approved requests
 	enableNotifications: boolean // Show notifications for approval and task completion
+	// Spending limits in USD, enforced whether or not auto-approval is enabled
+	taskBudget?: number // Maximum cost of a single task
+	dailyBudget?: number // Maximum cost of all tasks per day
+	budgetWarningThreshold?: number // Fraction of a budget at which to notify the user, defaults to DEFAULT_BUDGET_WARNING_THRESHOLD
 }
 
+export const DEFAULT_BUDGET_WARNING_THRESHOLD = 0.8
+
 export const DEFAULT_AUTO_APPROVAL_SETTINGS: AutoApprovalSettings = {
 	enabled: false,
 	actions: {
@@ -1,6 +1,6 @@
 // type that represents json data that is sent from extension to webview, called ExtensionMessage and has 'type' enum which can be 'plusButtonClicked' or 'settingsButtonClicked' or 'hello'
 
-import { ApiConfiguration, ModelInfo } from "./api"
+import { ApiConfiguration, ApiProvider, ModelInfo } from "./api"
 import { AutoApprovalSettings } from "./AutoApprovalSettings"
 import { HistoryItem } from "./HistoryItem"
 import { McpServer } from "./mcp"
@@ -12,7 +12,9 @@ export interface ExtensionMessage {
 		| "state"
 		| "selectedImages"
 		| "ollamaModels"
+		| "ollamaModelInfo"
 		| "lmStudioModels"
+		| "llamaCppModels"
 		| "theme"
 		| "workspaceUpdated"
 		| "invoke"
@@ -31,7 +33,9 @@ export interface ExtensionMessage {
 	state?: ExtensionState
 	images?: string[]
 	ollamaModels?: string[]
-	lmStudioModels?: string[]
+	ollamaModelInfo?: Partial<ModelInfo> // what Ollama reports about the selected model
+	lmStudioModels?: Record<string, Partial<ModelInfo>> // by model ID, with what LM Studio reports about them
+	llamaCppModels?: Record<string, Partial<ModelInfo>>
 	filePaths?: string[]
 	partialMessage?: ClineMessage
 	openRouterModels?: Record<string, ModelInfo>
@@ -41,14 +45,22 @@ export interface ExtensionMessage {
 export interface ExtensionState {
 	version: string
 	apiConfiguration?: ApiConfiguration
+	apiConfigurationProfiles: string[] // names only, the settings of the current profile are in apiConfiguration
+	currentApiConfigurationProfile?: string
 	customInstructions?: string
 	uriScheme?: string
 	clineMessages: ClineMessage[]
 	taskHistory: HistoryItem[]
 	shouldShowAnnouncement: boolean
 	autoApprovalSettings: AutoApprovalSettings
+	truncationStrategy?: TruncationStrategyName
+	condenseOnCacheExpiry?: boolean
+	promptCacheStatus?: ClinePromptCacheStatus
 }
 
+// how conversation history is cut when the context window fills up (see core/sliding-window)
+export type TruncationStrategyName = "half" | "cache-aligned"
+
 export interface ClineMessage {
 	ts: number
 	type: "ask" | "say"
@@ -70,6 +82,7 @@ export type ClineAsk =
 	| "resume_completed_task"
 	| "mistake_limit_reached"
 	| "auto_approval_max_req_reached"
+	| "budget_limit_reached"
 	| "browser_action_launch"
 	| "use_mcp_server"
 
@@ -79,6 +92,7 @@ export type ClineSay =
 	| "api_req_started"
 	| "api_req_finished"
 	| "text"
+	| "reasoning"
 	| "completion_result"
 	| "user_feedback"
 	| "user_feedback_diff"
@@ -142,9 +156,76 @@ export interface ClineApiReqInfo {
 	tokensOut?: number
 	cacheWrites?: number
 	cacheReads?: number
+	reasoningTokens?: number // not included in tokensOut
 	cost?: number
+	uncachedCost?: number // what the request would have cost at the full input price, to measure prompt cache savings
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
+	cacheBreak?: ClinePromptCacheBreak
+	contextTruncation?: ClineContextTruncation
+	cacheBreakpoints?: ClineCacheBreakpoint[]
+	servedBy?: ClineApiProvider // only set when a failover chain is configured
+	providerFailures?: ClineApiProviderFailure[]
+	retryStatus?: ClineApiRetryStatus
+	reasoningStartedAt?: number // set while a reasoning model thinks before a response that can't be streamed
+}
+
+// the latest automatic retry of a request that failed with a transient error
+export interface ClineApiRetryStatus {
+	attempt: number
+	maxAttempts: number
+	retryAt: number
+	error: string
+}
+
+// a task or daily spending limit that was reached before the next request
+export interface ClineBudgetLimit {
+	scope: "task" | "daily"
+	limit: number
+	spent: number
+	projectedCost?: number // estimated cost of the next request, unknown before the first request of a task
 }
 
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
+
+// the first segment of the request prefix that changed since the previous request, explaining why the prompt cache could not be reused past it
+export interface ClinePromptCacheBreak {
+	segment: "model" | "system_prompt" | "mcp_servers" | "custom_instructions" | "clinerules" | "history" | "none"
+	reason: string
+	messageIndex?: number // for history breaks, the index of the first message that differs
+}
+
+// a cache_control breakpoint placed in the request, with the estimated tokens between it and the previous breakpoint
+export interface ClineCacheBreakpoint {
+	position: "system" | "task" | "tail"
+	messageIndex?: number
+	tokens: number
+}
+
+export interface ClineApiProvider {
+	apiProvider: ApiProvider
+	modelId: string
+}
+
+// a provider in the failover chain that failed before the one that served the request
+export interface ClineApiProviderFailure extends ClineApiProvider {
+	error: string
+}
+
+// reported before the history is truncated, so the user can see what the cut will cost in cache re-writes
+export interface ClineContextTruncation {
+	reason?: "context_window" | "context_overflow" | "cache_expired"
+	strategy: TruncationStrategyName
+	removedMessages: number
+	reusablePrefixTokens: number
+	rewriteTokens: number
+	rewriteCost: number
+}
+
+// when the current task last used its prompt cache, so the webview can warn once the cache has likely expired
+export interface ClinePromptCacheStatus {
+	lastRequestAt: number
+	ttl: number // ms the provider keeps an idle cache
+	rewriteTokens: number // prompt tokens the next request has to write again if the cache expired
+	rewriteCost: number
+}
@@ -7,4 +7,5 @@ export type HistoryItem = {
 	cacheWrites?: number
 	cacheReads?: number
 	totalCost: number
+	apiConfigurationProfile?: string // the profile that was selected when the task last ran
 }
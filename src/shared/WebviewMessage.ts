@@ -17,7 +17,9 @@ export interface WebviewMessage {
 		| "exportTaskWithId"
 		| "resetState"
 		| "requestOllamaModels"
+		| "requestOllamaModelInfo"
 		| "requestLmStudioModels"
+		| "requestLlamaCppModels"
 		| "openImage"
 		| "openFile"
 		| "openMention"
@@ -26,6 +28,13 @@ export interface WebviewMessage {
 		| "openMcpSettings"
 		| "restartMcpServer"
 		| "autoApprovalSettings"
+		| "truncationStrategy"
+		| "condenseOnCacheExpiry"
+		| "exportPromptCacheAnalytics"
+		| "saveApiConfigurationProfile"
+		| "loadApiConfigurationProfile"
+		| "deleteApiConfigurationProfile"
+		| "importModelInfoOverrides"
 	text?: string
 	askResponse?: ClineAskResponse
 	apiConfiguration?: ApiConfiguration
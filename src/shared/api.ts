@@ -6,8 +6,11 @@ export type ApiProvider =
 	| "openai"
 	| "ollama"
 	| "lmstudio"
+	| "llamacpp"
 	| "gemini"
 	| "openai-native"
+	| "deepseek"
+	| "scripted"
 
 export interface ApiHandlerOptions {
 	apiModelId?: string
@@ -23,21 +26,78 @@ export interface ApiHandlerOptions {
 	awsUseCrossRegionInference?: boolean
 	vertexProjectId?: string
 	vertexRegion?: string
+	vertexBaseUrl?: string
 	openAiBaseUrl?: string
 	openAiApiKey?: string
 	openAiModelId?: string
 	ollamaModelId?: string
 	ollamaBaseUrl?: string
+	ollamaNativeApi?: boolean
+	ollamaModelOptions?: Record<string, OllamaModelOptions> // by model ID
 	lmStudioModelId?: string
 	lmStudioBaseUrl?: string
+	lmStudioModelInfo?: Partial<ModelInfo> // as reported by LM Studio when the model was selected
+	llamaCppBaseUrl?: string
+	llamaCppModelId?: string
+	llamaCppModelInfo?: Partial<ModelInfo> // as reported by the server when the model was selected
 	geminiApiKey?: string
+	geminiBaseUrl?: string
 	openAiNativeApiKey?: string
+	deepSeekApiKey?: string
+	deepSeekBaseUrl?: string
 	azureApiVersion?: string
+	cacheBreakpointPolicy?: CacheBreakpointPolicy
+	cacheAwareEnvironmentDetails?: boolean
+	nativeToolCalls?: boolean
+	modelInfoOverrides?: ModelInfoOverride[]
+	scriptedResponsesPath?: string
+	reasoningEffort?: ReasoningEffort // o-series models only, the model's default when unset
 }
 
 export type ApiConfiguration = ApiHandlerOptions & {
 	apiProvider?: ApiProvider;
 	error?: string;
+	fallbackApiConfigurations?: ApiConfiguration[]; // tried in order when the provider is unavailable
+}
+
+// a named set of provider settings the user can switch between, e.g. a cheap local model and a more capable hosted one
+export interface ApiConfigurationProfile {
+	name: string
+	apiConfiguration: ApiConfiguration
+}
+
+// OpenAI compatible providers that can be sent tools as function definitions instead of the XML tool use format
+export const nativeToolCallProviders: ApiProvider[] = ["openai", "ollama", "lmstudio", "llamacpp"]
+
+export function usesNativeToolCalls(configuration: ApiConfiguration): boolean {
+	const apiProvider = configuration.apiProvider ?? "anthropic"
+	// o-series models are sent in the o1 format, which has no tools
+	if (apiProvider === "openai" && isReasoningModel(configuration.openAiModelId ?? "")) {
+		return false
+	}
+	return !!configuration.nativeToolCalls && nativeToolCallProviders.includes(apiProvider)
+}
+
+// appended to the system prompt when tools are sent as function definitions
+export const nativeToolCallsInstructions = `
+
+====
+
+NATIVE TOOL CALLING
+
+The tools above are also provided as functions. Call them with a function call instead of writing the XML tool use format, passing the parameters as arguments. You can still only use one tool per message.`
+
+// Anthropic allows at most 4 cache_control breakpoints per request, the tail breakpoints are limited to whatever is left after the system prompt and task message
+export interface CacheBreakpointPolicy {
+	systemPrompt: boolean // reused across tasks as long as the system prompt doesn't change
+	taskMessage: boolean // the first message includes the initial environment listing, which can be large in monorepos
+	tailMessages: number // rolling breakpoints on the latest user messages, so the next request can read up to them
+}
+
+export const defaultCacheBreakpointPolicy: CacheBreakpointPolicy = {
+	systemPrompt: true,
+	taskMessage: false,
+	tailMessages: 2,
 }
 
 // Models
@@ -53,6 +113,7 @@ export interface ModelInfo {
 	cacheWritesPrice?: number
 	cacheReadsPrice?: number
 	description?: string
+	quantization?: string // of local models, e.g. Q4_K_M
 }
 
 // Anthropic
@@ -224,6 +285,23 @@ export function getPromptCacheDescription(modelId: string): string {
 
 // Vertex AI
 // https://cloud.google.com/vertex-ai/generative-ai/docs/partner-models/use-claude
+// Models of other publishers in the model garden are served through the same project and region, each with its publisher's request format.
+// https://cloud.google.com/vertex-ai/generative-ai/docs/learn/models
+export type VertexPublisher = "anthropic" | "google" | "meta"
+export const vertexPublisherNames: Record<VertexPublisher, string> = {
+	anthropic: "Anthropic",
+	google: "Google",
+	meta: "Meta",
+}
+export function getVertexPublisher(modelId: string): VertexPublisher {
+	if (modelId.startsWith("gemini-")) {
+		return "google"
+	}
+	if (modelId.startsWith("meta/")) {
+		return "meta"
+	}
+	return "anthropic"
+}
 export type VertexModelId = keyof typeof vertexModels
 export const vertexDefaultModelId: VertexModelId = "claude-3-5-sonnet-v2@20241022"
 export const vertexModels = {
@@ -268,6 +346,46 @@ export const vertexModels = {
 		inputPrice: 0.25,
 		outputPrice: 1.25,
 	},
+	"gemini-2.0-flash-exp": {
+		maxTokens: 8192,
+		contextWindow: 1_048_576,
+		supportsImages: true,
+		supportsPromptCache: false,
+		inputPrice: 0,
+		outputPrice: 0,
+	},
+	"gemini-1.5-pro-002": {
+		maxTokens: 8192,
+		contextWindow: 2_097_152,
+		supportsImages: true,
+		supportsPromptCache: false,
+		inputPrice: 1.25,
+		outputPrice: 5.0,
+	},
+	"gemini-1.5-flash-002": {
+		maxTokens: 8192,
+		contextWindow: 1_048_576,
+		supportsImages: true,
+		supportsPromptCache: false,
+		inputPrice: 0.075,
+		outputPrice: 0.3,
+	},
+	"meta/llama-3.3-70b-instruct-maas": {
+		maxTokens: 8192,
+		contextWindow: 128_000,
+		supportsImages: false,
+		supportsPromptCache: false,
+		inputPrice: 0.72,
+		outputPrice: 0.72,
+	},
+	"meta/llama-3.1-405b-instruct-maas": {
+		maxTokens: 4096,
+		contextWindow: 128_000,
+		supportsImages: false,
+		supportsPromptCache: false,
+		inputPrice: 5.0,
+		outputPrice: 16.0,
+	},
 } as const satisfies Record<string, ModelInfo>
 
 export const openAiModelInfoSaneDefaults: ModelInfo = {
@@ -277,8 +395,28 @@ export const openAiModelInfoSaneDefaults: ModelInfo = {
 	supportsPromptCache: true,
 }
 
+// Ollama
+// https://github.com/ollama/ollama/blob/main/docs/modelfile.md#valid-parameters-and-values
+export interface OllamaModelOptions {
+	numCtx?: number // context length the model is loaded with, defaults to the model's full context length up to ollamaDefaultNumCtx
+	keepAlive?: string // how long the model stays loaded after a request, e.g. "30m", or "-1" to keep it loaded
+	temperature?: number
+}
+// the memory for a model's full context length (e.g. 131072 for llama3.1) is more than most local GPUs have, so the default is capped
+export const ollamaDefaultNumCtx = 32_768
+
+// the details of models reached through these providers aren't known, so the user can override the sane defaults per model
+export const modelInfoOverrideProviders: ApiProvider[] = ["openai", "ollama", "lmstudio", "llamacpp"]
+
+export interface ModelInfoOverride {
+	apiProvider: ApiProvider
+	modelId: string
+	info: Partial<Omit<ModelInfo, "supportsComputerUse" | "description" | "quantization">>
+}
+
 // Gemini
 // https://ai.google.dev/gemini-api/docs/models/gemini
+// Context caching is only available for stable (versioned) models on the paid tier. Cache storage is billed per hour on top of cacheWritesPrice.
 export type GeminiModelId = keyof typeof geminiModels
 export const geminiDefaultModelId: GeminiModelId = "gemini-2.0-flash-thinking-exp-1219"
 export const geminiModels = {
@@ -310,9 +448,11 @@ export const geminiModels = {
 		maxTokens: 8192,
 		contextWindow: 1_048_576,
 		supportsImages: true,
-		supportsPromptCache: false,
-		inputPrice: 0,
-		outputPrice: 0,
+		supportsPromptCache: true,
+		inputPrice: 0.075,
+		outputPrice: 0.3,
+		cacheWritesPrice: 0.075,
+		cacheReadsPrice: 0.01875,
 	},
 	"gemini-1.5-flash-exp-0827": {
 		maxTokens: 8192,
@@ -334,9 +474,11 @@ export const geminiModels = {
 		maxTokens: 8192,
 		contextWindow: 2_097_152,
 		supportsImages: true,
-		supportsPromptCache: false,
-		inputPrice: 0,
-		outputPrice: 0,
+		supportsPromptCache: true,
+		inputPrice: 1.25,
+		outputPrice: 5.0,
+		cacheWritesPrice: 1.25,
+		cacheReadsPrice: 0.3125,
 	},
 	"gemini-1.5-pro-exp-0827": {
 		maxTokens: 8192,
@@ -348,12 +490,33 @@ export const geminiModels = {
 	},
 } as const satisfies Record<string, ModelInfo>
 
+// OpenAI's o-series reasoning models, whichever provider they're reached through, e.g. o1-mini, openai/o1 on OpenRouter or an Azure deployment named o1
+export function isReasoningModel(modelId: string): boolean {
+	return /(^|\/)o\d+(-|$)/.test(modelId)
+}
+
+// providers that send o-series models in the o1 format, see streamReasoningModelMessage
+export const reasoningModelProviders: ApiProvider[] = ["openai-native", "openai", "openrouter"]
+
+// how long the model reasons before answering, trading latency and reasoning tokens for better answers to hard problems
+export type ReasoningEffort = "low" | "medium" | "high"
+
 // OpenAI Native
 // https://openai.com/api/pricing/
 export type OpenAiNativeModelId = keyof typeof openAiNativeModels
 export const openAiNativeDefaultModelId: OpenAiNativeModelId = "gpt-4o"
 export const openAiNativeModels = {
 	// don't support tool use yet
+	"o1": {
+		maxTokens: 100_000,
+		contextWindow: 200_000,
+		supportsImages: true,
+		supportsPromptCache: true,
+		inputPrice: 15,
+		outputPrice: 60,
+		cacheWritesPrice: 15, // Same as input price
+		cacheReadsPrice: 7.5, // 0.5x input price
+	},
 	"o1-preview": {
 		maxTokens: 32_768,
 		contextWindow: 128_000,
@@ -396,7 +559,36 @@ export const openAiNativeModels = {
 	},
 } as const satisfies Record<string, ModelInfo>
 
+// DeepSeek
+// https://api-docs.deepseek.com/quick_start/pricing
+export type DeepSeekModelId = keyof typeof deepSeekModels
+export const deepSeekDefaultModelId: DeepSeekModelId = "deepseek-chat"
+export const deepSeekModels = {
+	"deepseek-chat": {
+		maxTokens: 8_000,
+		contextWindow: 64_000,
+		supportsImages: false,
+		supportsPromptCache: true,
+		inputPrice: 0.14,
+		outputPrice: 0.28,
+		cacheWritesPrice: 0.14, // cache misses are written to the cache at the normal input price
+		cacheReadsPrice: 0.014, // 0.1x input price
+	},
+} as const satisfies Record<string, ModelInfo>
+
 // Azure OpenAI
 // https://learn.microsoft.com/en-us/azure/ai-services/openai/api-version-deprecation
 // https://learn.microsoft.com/en-us/azure/ai-services/openai/reference#api-specs
 export const azureOpenAiDefaultApiVersion = "2024-08-01-preview"
+
+// Scripted
+// responses are played back from a local script for testing, so every capability is available and nothing is billed
+export const scriptedModelInfo: ModelInfo = {
+	maxTokens: 8192,
+	contextWindow: 200_000,
+	supportsImages: true,
+	supportsComputerUse: true,
+	supportsPromptCache: false,
+	inputPrice: 0,
+	outputPrice: 0,
+}
@@ -5,6 +5,7 @@ interface ApiMetrics {
 	totalTokensOut: number
 	totalCacheWrites?: number
 	totalCacheReads?: number
+	totalReasoningTokens?: number
 	totalCost: number
 }
 
@@ -13,10 +14,10 @@ interface ApiMetrics {
  *
  * This function processes 'api_req_started' messages that have been combined with their
  * corresponding 'api_req_finished' messages by the combineApiRequests function.
- * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, and cost from these messages.
+ * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, reasoningTokens, and cost from these messages.
  *
  * @param messages - An array of ClineMessage objects to process.
- * @returns An ApiMetrics object containing totalTokensIn, totalTokensOut, totalCacheWrites, totalCacheReads, and totalCost.
+ * @returns An ApiMetrics object containing totalTokensIn, totalTokensOut, totalCacheWrites, totalCacheReads, totalReasoningTokens, and totalCost.
  *
  * @example
  * const messages = [
@@ -31,6 +32,7 @@ export function getApiMetrics(messages: ClineMessage[]): ApiMetrics {
 		totalTokensOut: 0,
 		totalCacheWrites: undefined,
 		totalCacheReads: undefined,
+		totalReasoningTokens: undefined,
 		totalCost: 0,
 	}
 
@@ -38,7 +40,7 @@ export function getApiMetrics(messages: ClineMessage[]): ApiMetrics {
 		if (message.type === "say" && message.say === "api_req_started" && message.text) {
 			try {
 				const parsedData = JSON.parse(message.text)
-				const { tokensIn, tokensOut, cacheWrites, cacheReads, cost } = parsedData
+				const { tokensIn, tokensOut, cacheWrites, cacheReads, reasoningTokens, cost } = parsedData
 
 				if (typeof tokensIn === "number") {
 					result.totalTokensIn += tokensIn
@@ -52,6 +54,9 @@ export function getApiMetrics(messages: ClineMessage[]): ApiMetrics {
 				if (typeof cacheReads === "number") {
 					result.totalCacheReads = (result.totalCacheReads ?? 0) + cacheReads
 				}
+				if (typeof reasoningTokens === "number") {
+					result.totalReasoningTokens = (result.totalReasoningTokens ?? 0) + reasoningTokens
+				}
 				if (typeof cost === "number") {
 					result.totalCost += cost
 				}
@@ -0,0 +1,60 @@
+import { describe, it } from "mocha"
+import "should"
+import { ClineApiReqInfo, ClineMessage } from "./ExtensionMessage"
+import { formatPromptCacheAnalyticsCsv, getPromptCacheAnalytics } from "./getPromptCacheAnalytics"
+
+const apiReq = (ts: number, info: ClineApiReqInfo): ClineMessage => ({
+	ts,
+	type: "say",
+	say: "api_req_started",
+	text: JSON.stringify(info),
+})
+
+describe("getPromptCacheAnalytics", () => {
+	const messages: ClineMessage[] = [
+		{ ts: 1, type: "say", say: "text", text: "Hello" },
+		apiReq(2, { tokensIn: 100, tokensOut: 50, cacheWrites: 1_000, cacheReads: 0, cost: 0.01, uncachedCost: 0.008 }),
+		apiReq(3, {
+			tokensIn: 100,
+			tokensOut: 50,
+			cacheWrites: 500,
+			cacheReads: 1_000,
+			cost: 0.006,
+			uncachedCost: 0.01,
+		}),
+		apiReq(4, {
+			tokensIn: 100,
+			tokensOut: 50,
+			cacheWrites: 2_000,
+			cacheReads: 0,
+			cost: 0.02,
+			uncachedCost: 0.016,
+			cacheBreak: { segment: "system_prompt", reason: "System prompt changed" },
+		}),
+		apiReq(5, { request: "still streaming" }),
+	]
+
+	it("should report the hit ratio and cumulative savings per completed request", () => {
+		const { requests, totalSavings } = getPromptCacheAnalytics(messages)
+		requests.should.have.length(3)
+		requests[1].hitRatio.should.equal(1_000 / 1_600)
+		requests.map((r) => +r.cumulativeSavings.toFixed(6)).should.deepEqual([-0.002, 0.002, -0.002])
+		totalSavings.toFixed(6).should.equal("-0.002000")
+	})
+
+	it("should count cache writes that no later request read back", () => {
+		const analytics = getPromptCacheAnalytics(messages)
+		// the first write was read by the second request, but the second request's write was lost to the cache break
+		analytics.requests.map((r) => r.unreadCacheWrites).should.deepEqual([0, 500, 0])
+		analytics.unreadCacheWrites.should.equal(500)
+		analytics.cacheBreaks.should.equal(1)
+	})
+
+	it("should export one CSV row per request", () => {
+		const csv = formatPromptCacheAnalyticsCsv(getPromptCacheAnalytics(messages))
+		const lines = csv.trim().split("\n")
+		lines.should.have.length(4)
+		lines[0].should.startWith("timestamp,tokens_in")
+		lines[3].should.endWith(",system_prompt,System prompt changed")
+	})
+})
@@ -0,0 +1,124 @@
+import { ClineApiReqInfo, ClineMessage, ClinePromptCacheBreak } from "./ExtensionMessage"
+
+export interface PromptCacheRequestStats {
+	ts: number
+	tokensIn: number
+	tokensOut: number
+	cacheWrites: number
+	cacheReads: number
+	cost: number
+	uncachedCost?: number // undefined for requests made before it was tracked
+	hitRatio: number // share of the prompt tokens read from the cache
+	cumulativeSavings: number
+	unreadCacheWrites: number // tokens written to the cache that no later request read back
+	cacheBreak?: ClinePromptCacheBreak // why this request couldn't reuse the whole cached prefix
+}
+
+export interface PromptCacheAnalytics {
+	requests: PromptCacheRequestStats[]
+	totalCost: number
+	totalSavings: number
+	hitRatio: number
+	unreadCacheWrites: number
+	cacheBreaks: number
+}
+
+/**
+ * Builds prompt cache analytics from the api_req_started messages of a task.
+ *
+ * Cache writes are matched against later reads by position in the prompt: a request writes the tokens after the prefix it read, so they were read back if a later request read further than that prefix.
+ * Writes from the latest request are never counted as unread since the next request may still read them.
+ */
+export function getPromptCacheAnalytics(messages: ClineMessage[]): PromptCacheAnalytics {
+	const infos: (ClineApiReqInfo & { ts: number })[] = []
+	messages.forEach((message) => {
+		if (message.type === "say" && message.say === "api_req_started" && message.text) {
+			try {
+				const info: ClineApiReqInfo = JSON.parse(message.text)
+				// requests still in progress don't have usage yet
+				if (typeof info.cost === "number") {
+					infos.push({ ...info, ts: message.ts })
+				}
+			} catch (error) {
+				console.error("Error parsing JSON:", error)
+			}
+		}
+	})
+
+	let cumulativeSavings = 0
+	const requests = infos.map((info, i): PromptCacheRequestStats => {
+		const tokensIn = info.tokensIn ?? 0
+		const cacheWrites = info.cacheWrites ?? 0
+		const cacheReads = info.cacheReads ?? 0
+		const promptTokens = tokensIn + cacheWrites + cacheReads
+		if (info.uncachedCost !== undefined) {
+			cumulativeSavings += info.uncachedCost - (info.cost ?? 0)
+		}
+		const furthestLaterRead = Math.max(0, ...infos.slice(i + 1).map((later) => later.cacheReads ?? 0))
+		const readBack = Math.min(cacheWrites, Math.max(0, furthestLaterRead - cacheReads))
+		return {
+			ts: info.ts,
+			tokensIn,
+			tokensOut: info.tokensOut ?? 0,
+			cacheWrites,
+			cacheReads,
+			cost: info.cost ?? 0,
+			uncachedCost: info.uncachedCost,
+			hitRatio: promptTokens > 0 ? cacheReads / promptTokens : 0,
+			cumulativeSavings,
+			unreadCacheWrites: i < infos.length - 1 ? cacheWrites - readBack : 0,
+			cacheBreak: info.cacheBreak,
+		}
+	})
+
+	const totalPromptTokens = requests.reduce((total, r) => total + r.tokensIn + r.cacheWrites + r.cacheReads, 0)
+	const totalCacheReads = requests.reduce((total, r) => total + r.cacheReads, 0)
+	return {
+		requests,
+		totalCost: requests.reduce((total, r) => total + r.cost, 0),
+		totalSavings: cumulativeSavings,
+		hitRatio: totalPromptTokens > 0 ? totalCacheReads / totalPromptTokens : 0,
+		unreadCacheWrites: requests.reduce((total, r) => total + r.unreadCacheWrites, 0),
+		cacheBreaks: requests.filter((r) => r.cacheBreak).length,
+	}
+}
+
+const escapeCsv = (value: string | number | undefined) => {
+	const text = value === undefined ? "" : String(value)
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per request, for cost reviews in a spreadsheet.
+ */
+export function formatPromptCacheAnalyticsCsv(analytics: PromptCacheAnalytics): string {
+	const header = [
+		"timestamp",
+		"tokens_in",
+		"tokens_out",
+		"cache_writes",
+		"cache_reads",
+		"hit_ratio",
+		"cost",
+		"uncached_cost",
+		"cumulative_savings",
+		"unread_cache_writes",
+		"cache_break",
+		"cache_break_reason",
+	]
+	const rows = analytics.requests.map((r) => [
+		new Date(r.ts).toISOString(),
+		r.tokensIn,
+		r.tokensOut,
+		r.cacheWrites,
+		r.cacheReads,
+		r.hitRatio.toFixed(4),
+		r.cost.toFixed(6),
+		r.uncachedCost?.toFixed(6),
+		r.cumulativeSavings.toFixed(6),
+		r.unreadCacheWrites,
+		r.cacheBreak?.segment,
+		r.cacheBreak?.reason,
+	])
+	return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n"
+}
@@ -0,0 +1,58 @@
+import { describe, it } from "mocha"
+import "should"
+import { openAiModelInfoSaneDefaults } from "./api"
+import { getModelInfoWithOverride, parseModelInfoOverrides, setModelInfoOverride } from "./modelInfoOverrides"
+
+describe("modelInfoOverrides", () => {
+	const vllmOverride = {
+		apiProvider: "openai" as const,
+		modelId: "qwen2.5-coder-32b",
+		info: { contextWindow: 32_768, supportsImages: false, inputPrice: 0.2, outputPrice: 0.6 },
+	}
+
+	describe("getModelInfoWithOverride", () => {
+		it("should apply the override on top of the sane defaults", () => {
+			const info = getModelInfoWithOverride({ modelInfoOverrides: [vllmOverride] }, "openai", "qwen2.5-coder-32b")
+			info.should.deepEqual({ ...openAiModelInfoSaneDefaults, ...vllmOverride.info })
+		})
+
+		it("should only match the same provider and model", () => {
+			const options = { modelInfoOverrides: [vllmOverride] }
+			getModelInfoWithOverride(options, "ollama", "qwen2.5-coder-32b").should.deepEqual(
+				openAiModelInfoSaneDefaults,
+			)
+			getModelInfoWithOverride(options, "openai", "llama3.3").should.deepEqual(openAiModelInfoSaneDefaults)
+		})
+	})
+
+	describe("setModelInfoOverride", () => {
+		it("should replace the override for the same model", () => {
+			const updated = { ...vllmOverride, info: { contextWindow: 65_536 } }
+			setModelInfoOverride([vllmOverride], updated).should.deepEqual([updated])
+			setModelInfoOverride([vllmOverride], { ...updated, apiProvider: "lmstudio" }).should.have.length(2)
+		})
+	})
+
+	describe("parseModelInfoOverrides", () => {
+		it("should parse an array or a single override", () => {
+			parseModelInfoOverrides(JSON.stringify([vllmOverride])).should.deepEqual([vllmOverride])
+			parseModelInfoOverrides(JSON.stringify(vllmOverride)).should.deepEqual([vllmOverride])
+		})
+
+		it("should reject invalid overrides", () => {
+			;(() =>
+				parseModelInfoOverrides(JSON.stringify({ ...vllmOverride, apiProvider: "anthropic" }))).should.throw(
+				/apiProvider/,
+			)
+			;(() => parseModelInfoOverrides(JSON.stringify({ ...vllmOverride, modelId: "" }))).should.throw(/modelId/)
+			;(() =>
+				parseModelInfoOverrides(JSON.stringify({ ...vllmOverride, info: { inputPrice: "0.2" } }))).should.throw(
+				/inputPrice/,
+			)
+			;(() =>
+				parseModelInfoOverrides(
+					JSON.stringify({ ...vllmOverride, info: { contextLength: 4096 } }),
+				)).should.throw(/unknown field contextLength/)
+		})
+	})
+})
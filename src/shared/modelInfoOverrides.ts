@@ -0,0 +1,79 @@
+import {
+	ApiHandlerOptions,
+	ApiProvider,
+	ModelInfo,
+	ModelInfoOverride,
+	modelInfoOverrideProviders,
+	openAiModelInfoSaneDefaults,
+} from "./api"
+
+const numberFields = [
+	"maxTokens",
+	"contextWindow",
+	"inputPrice",
+	"outputPrice",
+	"cacheWritesPrice",
+	"cacheReadsPrice",
+] as const
+const booleanFields = ["supportsImages", "supportsPromptCache"] as const
+
+// the base info can include what the provider reports about the model, which the user's override still takes precedence over
+export function getModelInfoWithOverride(
+	options: ApiHandlerOptions,
+	apiProvider: ApiProvider,
+	modelId: string,
+	baseInfo: ModelInfo = openAiModelInfoSaneDefaults,
+): ModelInfo {
+	const override = getModelInfoOverride(options, apiProvider, modelId)
+	return { ...baseInfo, ...override?.info }
+}
+
+export function getModelInfoOverride(
+	options: ApiHandlerOptions,
+	apiProvider: ApiProvider,
+	modelId: string,
+): ModelInfoOverride | undefined {
+	return options.modelInfoOverrides?.find((o) => o.apiProvider === apiProvider && o.modelId === modelId)
+}
+
+// replaces the override for the same provider and model, or adds it
+export function setModelInfoOverride(overrides: ModelInfoOverride[], override: ModelInfoOverride): ModelInfoOverride[] {
+	const index = overrides.findIndex((o) => o.apiProvider === override.apiProvider && o.modelId === override.modelId)
+	return index === -1 ? [...overrides, override] : overrides.map((o, i) => (i === index ? override : o))
+}
+
+/**
+ * Parses overrides imported as JSON, e.g. shared by a team for their self-hosted models.
+ * Accepts an array of overrides or a single one, and throws on anything that isn't a valid override so a typo doesn't silently leave a model on the defaults.
+ */
+export function parseModelInfoOverrides(json: string): ModelInfoOverride[] {
+	const parsed: unknown = JSON.parse(json)
+	return (Array.isArray(parsed) ? parsed : [parsed]).map((entry, index) => {
+		const { apiProvider, modelId, info } = entry ?? {}
+		if (!modelInfoOverrideProviders.includes(apiProvider)) {
+			throw new Error(
+				`Override ${index + 1}: apiProvider must be one of ${modelInfoOverrideProviders.join(", ")}`,
+			)
+		}
+		if (typeof modelId !== "string" || !modelId) {
+			throw new Error(`Override ${index + 1}: modelId is required`)
+		}
+		const override: ModelInfoOverride = { apiProvider, modelId, info: {} }
+		for (const [field, value] of Object.entries(info ?? {})) {
+			if ((numberFields as readonly string[]).includes(field)) {
+				if (typeof value !== "number" || value < 0) {
+					throw new Error(`Override ${index + 1}: ${field} must be a non-negative number`)
+				}
+				override.info[field as (typeof numberFields)[number]] = value
+			} else if ((booleanFields as readonly string[]).includes(field)) {
+				if (typeof value !== "boolean") {
+					throw new Error(`Override ${index + 1}: ${field} must be true or false`)
+				}
+				override.info[field as (typeof booleanFields)[number]] = value
+			} else {
+				throw new Error(`Override ${index + 1}: unknown field ${field}`)
+			}
+		}
+		return override
+	})
+}
@@ -1,11 +1,26 @@
-import { readFile } from "fs/promises"
+import { readFile, writeFile } from "fs/promises"
 import { describe, it, after } from "mocha"
+import os from "os"
 import path from "path"
 import "should"
 import * as vscode from "vscode"
+import { ClineAPI } from "../exports/cline"
 
 const packagePath = path.join(__dirname, "..", "..", "..", "package.json")
 
+type Message = Awaited<ReturnType<ClineAPI["getMessages"]>>[number]
+
+async function waitForMessage(cline: ClineAPI, matches: (message: Message) => boolean): Promise<Message> {
+	for (let attempt = 0; attempt < 100; attempt++) {
+		const message = (await cline.getMessages()).find((message) => !message.partial && matches(message))
+		if (message) {
+			return message
+		}
+		await new Promise((resolve) => setTimeout(resolve, 100))
+	}
+	throw new Error("Timed out waiting for the message")
+}
+
 describe("Cline Extension", () => {
 	after(() => {
 		vscode.window.showInformationMessage("All tests done!")
@@ -23,4 +38,36 @@ describe("Cline Extension", () => {
 		await new Promise((resolve) => setTimeout(resolve, 400))
 		await vscode.commands.executeCommand("cline.plusButtonClicked")
 	})
+
+	it("should run a task through approvals with the scripted provider", async () => {
+		const packageJSON = JSON.parse(await readFile(packagePath, "utf8"))
+		const cline = await vscode.extensions
+			.getExtension<ClineAPI>(packageJSON.publisher + "." + packageJSON.name)!
+			.activate()
+		// tasks are started from the chat view, so it has to be resolved
+		await vscode.commands.executeCommand("claude-dev.SidebarProvider.focus")
+
+		const scriptPath = path.join(os.tmpdir(), `cline-test-script-${Date.now()}.yaml`)
+		await writeFile(
+			scriptPath,
+			[
+				"responses:",
+				"  - text: |",
+				"      <list_files>",
+				"      <path>.</path>",
+				"      </list_files>",
+				"  - text: |",
+				"      <attempt_completion>",
+				"      <result>Listed the files</result>",
+				"      </attempt_completion>",
+			].join("\n"),
+		)
+		await cline.setApiConfiguration({ apiProvider: "scripted", scriptedResponsesPath: scriptPath })
+		await cline.startNewTask("List the files")
+
+		await waitForMessage(cline, (message) => message.ask === "tool")
+		await cline.pressPrimaryButton()
+		const result = await waitForMessage(cline, (message) => message.say === "completion_result")
+		result.text!.should.equal("Listed the files")
+	})
 })
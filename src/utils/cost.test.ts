@@ -1,6 +1,6 @@
 import { describe, it } from "mocha"
 import "should"
-import { calculateApiCost } from "./cost"
+import { calculateApiCost, estimateNextRequestCost } from "./cost"
 import { ModelInfo } from "../shared/api"
 
 describe("Cost Utilities", () => {
@@ -51,6 +51,50 @@ describe("Cost Utilities", () => {
 			cost.should.equal(0.026775)
 		})
 
+		it("should price cached input at the discounted rate (GPT-4o)", () => {
+			const modelInfo: ModelInfo = {
+				supportsPromptCache: true,
+				inputPrice: 5,
+				outputPrice: 15,
+				cacheWritesPrice: 5,
+				cacheReadsPrice: 2.5,
+			}
+
+			// 3000 prompt tokens of which 2048 were read from the cache
+			const cost = calculateApiCost(modelInfo, 952, 100, undefined, 2048)
+			// Cache reads: (2.5 / 1_000_000) * 2048 = 0.00512
+			// Input: (5 / 1_000_000) * 952 = 0.00476
+			// Output: (15 / 1_000_000) * 100 = 0.0015
+			// Total: 0.00512 + 0.00476 + 0.0015 = 0.01138
+			cost.should.be.approximately(0.01138, 1e-12)
+		})
+
+		it("should fall back to the input price for cache reads without a cache price", () => {
+			const modelInfo: ModelInfo = {
+				supportsPromptCache: true,
+				inputPrice: 1.0,
+				outputPrice: 2.0,
+			}
+
+			const cost = calculateApiCost(modelInfo, 1000, 0, undefined, 1000)
+			// Cache reads: (1.0 / 1_000_000) * 1000 = 0.001
+			// Input: (1.0 / 1_000_000) * 1000 = 0.001
+			cost.should.equal(0.002)
+		})
+
+		it("should price reasoning tokens as output (o1-mini)", () => {
+			const modelInfo: ModelInfo = {
+				supportsPromptCache: true,
+				inputPrice: 3.0,
+				outputPrice: 12.0,
+			}
+
+			const cost = calculateApiCost(modelInfo, 1000, 500, undefined, undefined, 1500)
+			// Input: (3.0 / 1_000_000) * 1000 = 0.003
+			// Output and reasoning: (12.0 / 1_000_000) * 2000 = 0.024
+			cost.should.equal(0.027)
+		})
+
 		it("should handle zero token counts", () => {
 			const modelInfo: ModelInfo = {
 				supportsPromptCache: true,
@@ -64,4 +108,38 @@ describe("Cost Utilities", () => {
 			cost.should.equal(0)
 		})
 	})
+
+	describe("estimateNextRequestCost", () => {
+		const previousRequest = { tokensIn: 1000, tokensOut: 500, cacheWrites: 2000, cacheReads: 10000 }
+
+		it("should write the previous request's input and response to the cache (Claude 3.5 Sonnet)", () => {
+			const modelInfo: ModelInfo = {
+				supportsPromptCache: true,
+				inputPrice: 3.0,
+				outputPrice: 15.0,
+				cacheWritesPrice: 3.75,
+				cacheReadsPrice: 0.3,
+			}
+
+			const cost = estimateNextRequestCost(modelInfo, previousRequest)
+			// Cache writes: (3.75 / 1_000_000) * 1500 = 0.005625
+			// Cache reads: (0.3 / 1_000_000) * 12000 = 0.0036
+			// Output: (15.0 / 1_000_000) * 500 = 0.0075
+			cost.should.be.approximately(0.016725, 1e-9)
+		})
+
+		it("should price the previous request's input and response as new input without a cache write price", () => {
+			const modelInfo: ModelInfo = {
+				supportsPromptCache: false,
+				inputPrice: 3.0,
+				outputPrice: 15.0,
+			}
+
+			const cost = estimateNextRequestCost(modelInfo, { ...previousRequest, reasoningTokens: 1000 })
+			// Input: (3.0 / 1_000_000) * 1500 = 0.0045
+			// Cache reads at the input price: (3.0 / 1_000_000) * 12000 = 0.036
+			// Output and reasoning: (15.0 / 1_000_000) * 1500 = 0.0225
+			cost.should.be.approximately(0.063, 1e-9)
+		})
+	})
 })
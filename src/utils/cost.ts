@@ -1,4 +1,5 @@
 import { ModelInfo } from "../shared/api"
+import { ClineApiReqInfo } from "../shared/ExtensionMessage"
 
 export function calculateApiCost(
 	modelInfo: ModelInfo,
@@ -6,19 +7,36 @@ export function calculateApiCost(
 	outputTokens: number,
 	cacheCreationInputTokens?: number,
 	cacheReadInputTokens?: number,
+	reasoningTokens?: number,
 ): number {
 	const modelCacheWritesPrice = modelInfo.cacheWritesPrice
 	let cacheWritesCost = 0
 	if (cacheCreationInputTokens && modelCacheWritesPrice) {
 		cacheWritesCost = (modelCacheWritesPrice / 1_000_000) * cacheCreationInputTokens
 	}
-	const modelCacheReadsPrice = modelInfo.cacheReadsPrice
+	// cache reads are reported separately from input tokens, so fall back to the input price if the model has no discounted rate
+	const modelCacheReadsPrice = modelInfo.cacheReadsPrice ?? modelInfo.inputPrice
 	let cacheReadsCost = 0
 	if (cacheReadInputTokens && modelCacheReadsPrice) {
 		cacheReadsCost = (modelCacheReadsPrice / 1_000_000) * cacheReadInputTokens
 	}
 	const baseInputCost = ((modelInfo.inputPrice || 0) / 1_000_000) * inputTokens
-	const outputCost = ((modelInfo.outputPrice || 0) / 1_000_000) * outputTokens
+	// reasoning tokens are billed as output tokens, they're only reported separately since they don't stay in the context
+	const outputCost = ((modelInfo.outputPrice || 0) / 1_000_000) * (outputTokens + (reasoningTokens || 0))
 	const totalCost = cacheWritesCost + cacheReadsCost + baseInputCost + outputCost
 	return totalCost
 }
+
+/**
+ * Estimates the cost of the next request from the previous one. The previous prompt is expected to be read from the cache,
+ * the previous request's new input and response are added to the prompt, and the next response is expected to be about as long.
+ */
+export function estimateNextRequestCost(modelInfo: ModelInfo, previousRequest: ClineApiReqInfo): number {
+	const cachedTokens = (previousRequest.cacheWrites || 0) + (previousRequest.cacheReads || 0)
+	const newTokens = (previousRequest.tokensIn || 0) + (previousRequest.tokensOut || 0)
+	const outputTokens = previousRequest.tokensOut || 0
+	// models with a cache write price (e.g. Claude) only cache what is explicitly written to it
+	return modelInfo.cacheWritesPrice
+		? calculateApiCost(modelInfo, 0, outputTokens, newTokens, cachedTokens, previousRequest.reasoningTokens)
+		: calculateApiCost(modelInfo, newTokens, outputTokens, 0, cachedTokens, previousRequest.reasoningTokens)
+}
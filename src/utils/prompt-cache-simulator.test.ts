@@ -0,0 +1,59 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { ModelInfo } from "../shared/api"
+import { estimateTokens, getRequestSequence, simulatePromptCache } from "./prompt-cache-simulator"
+
+describe("Prompt Cache Simulator", () => {
+	const messages: Anthropic.Messages.MessageParam[] = [
+		{ role: "user", content: "a".repeat(4000) }, // 1000 tokens
+		{ role: "assistant", content: "b".repeat(400) }, // 100 tokens
+		{ role: "user", content: [{ type: "text", text: "c".repeat(2000) }] }, // 500 tokens
+		{ role: "assistant", content: "d".repeat(800) }, // 200 tokens
+	]
+	const modelInfo: ModelInfo = {
+		supportsPromptCache: true,
+		inputPrice: 3.0,
+		outputPrice: 15.0,
+		cacheWritesPrice: 3.75,
+		cacheReadsPrice: 0.3,
+	}
+
+	it("should estimate tokens for text and image blocks", () => {
+		estimateTokens("abcd").should.equal(1)
+		estimateTokens([
+			{ type: "text", text: "abcdefgh" },
+			{ type: "image", source: { type: "base64", media_type: "image/png", data: "" } },
+		]).should.equal(1602)
+	})
+
+	it("should split the history into requests ending on user messages", () => {
+		const requests = getRequestSequence(2000, messages)
+		requests.should.deepEqual([
+			{ promptTokens: 3000, outputTokens: 100 },
+			{ promptTokens: 3600, outputTokens: 200 },
+		])
+	})
+
+	it("should bill everything as input without caching", () => {
+		const result = simulatePromptCache(getRequestSequence(2000, messages), modelInfo, "none")
+		result.cacheReadTokens.should.equal(0)
+		result.inputTokens.should.equal(6600)
+		result.cost.should.equal(result.costWithoutCache)
+	})
+
+	it("should read back the previous prompt with cache_control breakpoints", () => {
+		const result = simulatePromptCache(getRequestSequence(2000, messages), modelInfo, "cache_control")
+		result.cacheWriteTokens.should.equal(3600) // 3000 on the first request, then the 600 token tail
+		result.cacheReadTokens.should.equal(3000)
+		result.inputTokens.should.equal(0)
+		result.hitRate.should.be.approximately(3000 / 6600, 1e-9)
+	})
+
+	it("should cache in 128 token increments with automatic caching", () => {
+		const result = simulatePromptCache(getRequestSequence(2000, messages), modelInfo, "automatic")
+		result.cacheReadTokens.should.equal(2944) // 1024 + 15 * 128
+		result.cacheWriteTokens.should.equal(0)
+		result.cost.should.be.below(result.costWithoutCache)
+	})
+})
@@ -0,0 +1,186 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import {
+	anthropicModels,
+	ApiProvider,
+	bedrockModels,
+	deepSeekModels,
+	geminiModels,
+	ModelInfo,
+	openAiNativeModels,
+	vertexModels,
+} from "../shared/api"
+import { calculateApiCost } from "./cost"
+import { calculatePotentialCacheTokens, getPromptCacheRule, PromptCacheRule } from "./prompt-cache"
+
+/*
+Replays a saved task's request sequence offline to project what it would have cost under each provider's prompt caching rules. Token counts are estimated from the serialized content since we don't have the provider's tokenizers, so results are best used to compare models against each other rather than as exact bills.
+*/
+
+// roughly how Anthropic and OpenAI tokenizers average out for code and English
+const CHARS_PER_TOKEN = 4
+// images are billed by size, this is a typical screenshot
+const IMAGE_TOKENS = 1_600
+// minimum cacheable prefix for cache_control breakpoints
+const CACHE_CONTROL_MIN_TOKENS = 1024
+
+export function estimateTokens(content: Anthropic.Messages.MessageParam["content"] | string): number {
+	if (typeof content === "string") {
+		return Math.ceil(content.length / CHARS_PER_TOKEN)
+	}
+	return content.reduce((total, block) => {
+		switch (block.type) {
+			case "text":
+				return total + estimateTokens(block.text)
+			case "image":
+				return total + IMAGE_TOKENS
+			case "tool_use":
+				return total + estimateTokens(JSON.stringify(block.input))
+			case "tool_result":
+				return total + (block.content ? estimateTokens(block.content) : 0)
+			default:
+				return total
+		}
+	}, 0)
+}
+
+export interface SimulatedRequest {
+	promptTokens: number
+	outputTokens: number
+}
+
+/**
+ * Splits a saved conversation into the requests that produced it. Each request is sent with the system prompt and all messages up to (and including) a user message, and produces the following assistant message.
+ */
+export function getRequestSequence(
+	systemPromptTokens: number,
+	messages: Anthropic.Messages.MessageParam[],
+): SimulatedRequest[] {
+	const requests: SimulatedRequest[] = []
+	let promptTokens = systemPromptTokens
+	for (let i = 0; i < messages.length; i++) {
+		promptTokens += estimateTokens(messages[i].content)
+		if (messages[i].role === "user") {
+			const next = messages[i + 1]
+			requests.push({
+				promptTokens,
+				outputTokens: next?.role === "assistant" ? estimateTokens(next.content) : 0,
+			})
+		}
+	}
+	return requests
+}
+
+export interface PromptCacheSimulationResult {
+	provider: ApiProvider
+	modelId: string
+	rule: PromptCacheRule
+	requests: number
+	inputTokens: number
+	cacheReadTokens: number
+	cacheWriteTokens: number
+	hitRate: number // cache reads / total prompt tokens
+	cost: number
+	costWithoutCache: number
+	requestsOverContextWindow: number
+}
+
+export function simulatePromptCache(
+	requests: SimulatedRequest[],
+	modelInfo: ModelInfo,
+	rule: PromptCacheRule,
+): Omit<PromptCacheSimulationResult, "provider" | "modelId"> {
+	let inputTokens = 0
+	let cacheReadTokens = 0
+	let cacheWriteTokens = 0
+	let cost = 0
+	let costWithoutCache = 0
+	let totalPromptTokens = 0
+	let requestsOverContextWindow = 0
+	let previousPromptTokens = 0
+
+	for (const request of requests) {
+		let reads = 0
+		let writes = 0
+		switch (rule) {
+			case "automatic":
+				// the previous request's prompt is cached in 128 token increments once it reaches 1024 tokens, and writes cost nothing extra
+				reads = Math.min(calculatePotentialCacheTokens(previousPromptTokens), request.promptTokens)
+				break
+			case "cache_control":
+				// breakpoints on the system prompt and the last two user messages mean everything up to the end of the previous request is read back, and the new tail is written
+				if (request.promptTokens >= CACHE_CONTROL_MIN_TOKENS) {
+					reads = previousPromptTokens >= CACHE_CONTROL_MIN_TOKENS ? previousPromptTokens : 0
+					writes = request.promptTokens - reads
+				}
+				break
+			case "none":
+				break
+		}
+		const uncached = request.promptTokens - reads - writes
+		inputTokens += uncached
+		cacheReadTokens += reads
+		cacheWriteTokens += writes
+		totalPromptTokens += request.promptTokens
+		cost += calculateApiCost(modelInfo, uncached, request.outputTokens, writes, reads)
+		costWithoutCache += calculateApiCost(modelInfo, request.promptTokens, request.outputTokens)
+		if (modelInfo.contextWindow && request.promptTokens > modelInfo.contextWindow) {
+			requestsOverContextWindow++
+		}
+		previousPromptTokens = request.promptTokens
+	}
+
+	return {
+		rule,
+		requests: requests.length,
+		inputTokens,
+		cacheReadTokens,
+		cacheWriteTokens,
+		hitRate: totalPromptTokens > 0 ? cacheReadTokens / totalPromptTokens : 0,
+		cost,
+		costWithoutCache,
+		requestsOverContextWindow,
+	}
+}
+
+// providers with static model pricing
+const simulatedModelTables: { provider: ApiProvider; models: Record<string, ModelInfo> }[] = [
+	{ provider: "anthropic", models: anthropicModels },
+	{ provider: "openai-native", models: openAiNativeModels },
+	{ provider: "bedrock", models: bedrockModels },
+	{ provider: "vertex", models: vertexModels },
+	{ provider: "gemini", models: geminiModels },
+	{ provider: "deepseek", models: deepSeekModels },
+]
+
+export function simulatePromptCacheForAllModels(
+	systemPromptTokens: number,
+	messages: Anthropic.Messages.MessageParam[],
+): PromptCacheSimulationResult[] {
+	const requests = getRequestSequence(systemPromptTokens, messages)
+	const results: PromptCacheSimulationResult[] = []
+	for (const { provider, models } of simulatedModelTables) {
+		for (const [modelId, info] of Object.entries(models)) {
+			const rule = getPromptCacheRule(provider, modelId, info)
+			results.push({ provider, modelId, ...simulatePromptCache(requests, info, rule) })
+		}
+	}
+	return results.sort((a, b) => a.cost - b.cost)
+}
+
+export function formatPromptCacheSimulation(taskDescription: string, results: PromptCacheSimulationResult[]): string {
+	const rows = results.map(
+		(r) =>
+			`| ${r.provider} | ${r.modelId} | ${r.rule} | ${(r.hitRate * 100).toFixed(1)}% | $${r.cost.toFixed(4)} | $${r.costWithoutCache.toFixed(4)} | ${r.requestsOverContextWindow > 0 ? `${r.requestsOverContextWindow} over` : "fits"} |`,
+	)
+	return [
+		`# Prompt Cache Simulation`,
+		``,
+		`**Task:** ${taskDescription}`,
+		``,
+		`Replayed ${results[0]?.requests ?? 0} requests from the saved conversation history. Token counts are estimated (~${CHARS_PER_TOKEN} characters per token), and history that was truncated during the task is no longer on disk, so only the saved requests are replayed. Models with free pricing show $0.`,
+		``,
+		`| Provider | Model | Caching | Hit Rate | Projected Cost | Cost Without Cache | Context Window |`,
+		`| --- | --- | --- | --- | --- | --- | --- |`,
+		...rows,
+	].join("\n")
+}
@@ -0,0 +1,107 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import should from "should"
+import { ModelInfo } from "../shared/api"
+import {
+	calculatePotentialCacheTokens,
+	getCacheInfo,
+	getPromptCacheTtl,
+	separateEnvironmentDetails,
+} from "./prompt-cache"
+
+describe("Prompt Cache Utilities", () => {
+	describe("getCacheInfo", () => {
+		it("should read cached tokens from prompt_tokens_details", () => {
+			const usage = {
+				prompt_tokens: 3000,
+				completion_tokens: 100,
+				total_tokens: 3100,
+				prompt_tokens_details: { cached_tokens: 2048 },
+			}
+			getCacheInfo({ usage }).should.equal(2048)
+		})
+
+		it("should return 0 when usage details are missing", () => {
+			getCacheInfo({}).should.equal(0)
+			getCacheInfo({ usage: null }).should.equal(0)
+			getCacheInfo({ usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } }).should.equal(0)
+		})
+	})
+
+	describe("calculatePotentialCacheTokens", () => {
+		it("should return 0 below the 1024 token minimum", () => {
+			calculatePotentialCacheTokens(1023).should.equal(0)
+		})
+
+		it("should round down to 128 token increments", () => {
+			calculatePotentialCacheTokens(1024).should.equal(1024)
+			calculatePotentialCacheTokens(1151).should.equal(1024)
+			calculatePotentialCacheTokens(1152).should.equal(1152)
+		})
+	})
+
+	describe("getPromptCacheTtl", () => {
+		const info: ModelInfo = { supportsPromptCache: true }
+
+		it("should expire ephemeral caches after 5 minutes", () => {
+			getPromptCacheTtl("anthropic", "claude-3-5-sonnet-20241022", info)!.should.equal(5 * 60 * 1000)
+			getPromptCacheTtl("openai-native", "gpt-4o", info)!.should.equal(5 * 60 * 1000)
+		})
+
+		it("should not track expiry for disk caches or models without caching", () => {
+			should.not.exist(getPromptCacheTtl("deepseek", "deepseek-chat", info))
+			should.not.exist(
+				getPromptCacheTtl("anthropic", "claude-3-5-sonnet-20241022", { supportsPromptCache: false }),
+			)
+		})
+	})
+
+	describe("separateEnvironmentDetails", () => {
+		const details = (...sections: string[]) =>
+			`<environment_details>\n${sections.join("\n\n")}\n</environment_details>`
+		const visible = "# VSCode Visible Files\nsrc/index.ts"
+		const tabs = "# VSCode Open Tabs\nsrc/index.ts\nREADME.md"
+		const files = "# Current Working Directory (/project) Files\nsrc/\nREADME.md"
+		const terminal = "# Inactive Terminals\n## npm test\n### New Output\nok"
+		const messages: Anthropic.Messages.MessageParam[] = [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "<task>\nFix the bug\n</task>" },
+					{ type: "text", text: details(visible, tabs, files) },
+				],
+			},
+			{ role: "assistant", content: "Running tests" },
+			{ role: "user", content: [{ type: "text", text: details(visible, tabs, terminal) }] },
+			{ role: "assistant", content: "Opening README" },
+			{ role: "user", content: details("# VSCode Visible Files\nREADME.md", tabs, terminal) },
+		]
+
+		it("should keep the task and initial file listing as the static prefix", () => {
+			const { staticMessages, variableMessages } = separateEnvironmentDetails(messages)
+			staticMessages.should.deepEqual([messages[0]])
+			variableMessages.should.have.length(4)
+		})
+
+		it("should move the latest state into a trailing block and keep terminal output in place", () => {
+			const { variableMessages } = separateEnvironmentDetails(messages)
+			variableMessages[1].content.should.deepEqual([{ type: "text", text: details(terminal) }])
+			variableMessages[3].content.should.equal(
+				`${details(terminal)}\n\n${details("# VSCode Visible Files\nREADME.md", tabs)}`,
+			)
+		})
+
+		it("should not change the history before the trailing block as it grows", () => {
+			const before = separateEnvironmentDetails(messages.slice(0, 3))
+			const after = separateEnvironmentDetails(messages)
+			before.variableMessages[1].content.should.deepEqual([
+				{ type: "text", text: details(terminal) },
+				{ type: "text", text: details(visible, tabs) },
+			])
+			after.variableMessages[0].should.deepEqual(before.variableMessages[0])
+			;(after.variableMessages[1].content as Anthropic.TextBlockParam[]).should.deepEqual(
+				(before.variableMessages[1].content as Anthropic.TextBlockParam[]).slice(0, 1),
+			)
+		})
+	})
+})
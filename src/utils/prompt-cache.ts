@@ -1,4 +1,6 @@
+import { Anthropic } from '@anthropic-ai/sdk';
 import { OpenAI } from 'openai';
+import { ApiProvider, ModelInfo } from '../shared/api';
 
 /**
  * Helper function to structure prompts for optimal caching.
@@ -23,21 +25,87 @@ export function structurePromptForCaching(
   ];
 }
 
+const ENVIRONMENT_DETAILS_PATTERN = /<environment_details>\n([\s\S]*?)\n<\/environment_details>/g;
+
+// Sections describing the editor and workspace state, where only the latest report matters.
+// Terminal sections stay where they were reported since they only ever contain new output.
+const STATE_SECTION_HEADERS = ["# VSCode Visible Files", "# VSCode Open Tabs", "# Current Working Directory"];
+
+/**
+ * Caching-aware alternative to passing the whole history as variable messages.
+ * The first user message (the task and the initial file listing) never changes during a task, so it is returned as a static message for the fixed prefix.
+ * The state sections of later environment_details (e.g. the visible files) are moved out of the history into one compact block at the end of the last user message, holding the latest reported state.
+ * Messages before the trailing block are the same from one request to the next, so everything up to it can be read from the cache, and the model still sees the current state.
+ */
+export function separateEnvironmentDetails(messages: Anthropic.Messages.MessageParam[]): {
+  staticMessages: Anthropic.Messages.MessageParam[];
+  variableMessages: Anthropic.Messages.MessageParam[];
+} {
+  if (messages.length === 0 || messages[0].role !== "user") {
+    return { staticMessages: [], variableMessages: messages };
+  }
+
+  const latestState = new Map<string, string>(); // state section header -> latest reported section
+  const removeState = (text: string) =>
+    text.replace(ENVIRONMENT_DETAILS_PATTERN, (_, details: string) => {
+      const sections = details.split(/\n\n(?=# )/).filter((section) => {
+        const header = STATE_SECTION_HEADERS.find((prefix) => section.startsWith(prefix));
+        if (header) {
+          latestState.set(header, section);
+        }
+        return !header;
+      });
+      return sections.length > 0 ? `<environment_details>\n${sections.join("\n\n")}\n</environment_details>` : "";
+    });
+  const removeStateFromMessage = (message: Anthropic.Messages.MessageParam): Anthropic.Messages.MessageParam => {
+    if (message.role !== "user") {
+      return message;
+    }
+    if (typeof message.content === "string") {
+      return { ...message, content: removeState(message.content).trim() };
+    }
+    return {
+      ...message,
+      content: message.content
+        .map((block) => (block.type === "text" ? { ...block, text: removeState(block.text) } : block))
+        .filter((block) => block.type !== "text" || block.text.trim()),
+    };
+  };
+
+  const [task, ...rest] = messages;
+  const variableMessages = rest.map(removeStateFromMessage);
+  const last = variableMessages.at(-1);
+  if (last?.role === "user" && latestState.size > 0) {
+    const stateBlock = `<environment_details>\n${STATE_SECTION_HEADERS.map((header) => latestState.get(header))
+      .filter((section) => section)
+      .join("\n\n")}\n</environment_details>`;
+    variableMessages[variableMessages.length - 1] = {
+      ...last,
+      content:
+        typeof last.content === "string"
+          ? [last.content, stateBlock].filter((text) => text).join("\n\n")
+          : [...last.content, { type: "text", text: stateBlock }],
+    };
+  }
+  return { staticMessages: [task], variableMessages };
+}
+
 /**
  * Extracts cache information from OpenAI API responses.
  * Returns the number of tokens that were cached in this request.
+ * Works for both complete responses and the final usage chunk of a stream.
  * 
  * Note: For OpenRouter:
  * - OpenAI models: Cache reads cost 0.5x input price
  * - Anthropic models: Cache writes cost 1.25x, reads cost 0.1x
  * - DeepSeek models: Cache writes at normal price, reads cost 0.1x
  */
-export function getCacheInfo(response: OpenAI.Chat.ChatCompletion & {
-  usage?: {
+export function getCacheInfo(response: {
+  usage?: (OpenAI.CompletionUsage & {
     prompt_tokens_details?: {
-      cached_tokens: number;
+      cached_tokens?: number;
     };
-  };
+  }) | null;
 }): number {
   return response.usage?.prompt_tokens_details?.cached_tokens ?? 0;
 }
@@ -67,3 +135,53 @@ export function calculatePotentialCacheTokens(totalTokens: number): number {
 export function isPromptCacheEligible(totalTokens: number): boolean {
   return totalTokens >= 1024;
 }
+
+/**
+ * How a provider reuses prompt prefixes between requests:
+ * - automatic: OpenAI/DeepSeek cache any previously seen prefix in 1024+128 token increments
+ * - cache_control: Anthropic only caches up to explicit breakpoints, which expire after 5 minutes
+ * - none: every request is billed at full input price
+ */
+export type PromptCacheRule = "automatic" | "cache_control" | "none";
+
+export function getPromptCacheRule(apiProvider: ApiProvider | undefined, modelId: string, modelInfo: ModelInfo): PromptCacheRule {
+  if (!modelInfo.supportsPromptCache) {
+    return "none";
+  }
+  switch (apiProvider) {
+    case "anthropic":
+      return "cache_control";
+    case "openrouter":
+      return modelId.startsWith("anthropic/") ? "cache_control" : "automatic";
+    case "openai":
+    case "openai-native":
+    case "deepseek":
+      return "automatic";
+    default:
+      return "none";
+  }
+}
+
+/**
+ * How long a provider keeps a prompt cache alive without requests, in milliseconds.
+ * Returns undefined if the provider doesn't cache prompts or keeps them long enough that a pause within a task doesn't matter.
+ * - Anthropic: 5 minutes, refreshed every time the cache is read
+ * - OpenAI: cleared after 5-10 minutes of inactivity
+ * - Gemini: context caches are created with a 5 minute TTL (see GeminiHandler)
+ * - DeepSeek: kept on disk for hours to days
+ */
+export function getPromptCacheTtl(apiProvider: ApiProvider | undefined, modelId: string, modelInfo: ModelInfo): number | undefined {
+  if (!modelInfo.supportsPromptCache) {
+    return undefined;
+  }
+  switch (apiProvider) {
+    case "anthropic":
+    case "openrouter":
+    case "openai":
+    case "openai-native":
+    case "gemini":
+      return 5 * 60 * 1000;
+    default:
+      return undefined;
+  }
+}
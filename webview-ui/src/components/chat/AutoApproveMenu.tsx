@@ -2,7 +2,7 @@ import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/reac
 import { useCallback, useState } from "react"
 import styled from "styled-components"
 import { useExtensionState } from "../../context/ExtensionStateContext"
-import { AutoApprovalSettings } from "../../../../src/shared/AutoApprovalSettings"
+import { AutoApprovalSettings, DEFAULT_BUDGET_WARNING_THRESHOLD } from "../../../../src/shared/AutoApprovalSettings"
 import { vscode } from "../../utils/vscode"
 
 interface AutoApproveMenuProps {
@@ -109,6 +109,19 @@ const AutoApproveMenu = ({ style }: AutoApproveMenuProps) => {
 		[autoApprovalSettings],
 	)
 
+	const updateBudgets = useCallback(
+		(budgets: Pick<AutoApprovalSettings, "taskBudget" | "dailyBudget" | "budgetWarningThreshold">) => {
+			vscode.postMessage({
+				type: "autoApprovalSettings",
+				autoApprovalSettings: {
+					...autoApprovalSettings,
+					...budgets,
+				},
+			})
+		},
+		[autoApprovalSettings],
+	)
+
 	const updateNotifications = useCallback(
 		(enableNotifications: boolean) => {
 			vscode.postMessage({
@@ -282,6 +295,88 @@ const AutoApproveMenu = ({ style }: AutoApproveMenuProps) => {
 						Cline will automatically make this many API requests before asking for approval to proceed with
 						the task.
 					</div>
+					<div
+						style={{
+							display: "flex",
+							alignItems: "center",
+							gap: "8px",
+							marginBottom: "8px",
+							color: "var(--vscode-foreground)",
+						}}>
+						<span style={{ flexShrink: 1, minWidth: 0 }}>Task Budget ($):</span>
+						<VSCodeTextField
+							placeholder="No limit"
+							value={autoApprovalSettings.taskBudget?.toString() ?? ""}
+							onInput={(e) => {
+								const input = e.target as HTMLInputElement
+								// Remove any characters that can't be part of a dollar amount
+								input.value = input.value.replace(/[^0-9.]/g, "")
+								const value = parseFloat(input.value)
+								updateBudgets({ taskBudget: !isNaN(value) && value > 0 ? value : undefined })
+							}}
+							style={{ flex: 1 }}
+						/>
+					</div>
+					<div
+						style={{
+							display: "flex",
+							alignItems: "center",
+							gap: "8px",
+							marginBottom: "8px",
+							color: "var(--vscode-foreground)",
+						}}>
+						<span style={{ flexShrink: 1, minWidth: 0 }}>Daily Budget ($):</span>
+						<VSCodeTextField
+							placeholder="No limit"
+							value={autoApprovalSettings.dailyBudget?.toString() ?? ""}
+							onInput={(e) => {
+								const input = e.target as HTMLInputElement
+								// Remove any characters that can't be part of a dollar amount
+								input.value = input.value.replace(/[^0-9.]/g, "")
+								const value = parseFloat(input.value)
+								updateBudgets({ dailyBudget: !isNaN(value) && value > 0 ? value : undefined })
+							}}
+							style={{ flex: 1 }}
+						/>
+					</div>
+					<div
+						style={{
+							display: "flex",
+							alignItems: "center",
+							gap: "8px",
+							marginBottom: "8px",
+							color: "var(--vscode-foreground)",
+						}}>
+						<span style={{ flexShrink: 1, minWidth: 0 }}>Warn At (%):</span>
+						<VSCodeTextField
+							placeholder={Math.round(DEFAULT_BUDGET_WARNING_THRESHOLD * 100).toString()}
+							value={
+								autoApprovalSettings.budgetWarningThreshold !== undefined
+									? Math.round(autoApprovalSettings.budgetWarningThreshold * 100).toString()
+									: ""
+							}
+							onInput={(e) => {
+								const input = e.target as HTMLInputElement
+								input.value = input.value.replace(/[^0-9]/g, "")
+								const value = parseInt(input.value)
+								updateBudgets({
+									budgetWarningThreshold:
+										!isNaN(value) && value > 0 && value <= 100 ? value / 100 : undefined,
+								})
+							}}
+							style={{ flex: 1 }}
+						/>
+					</div>
+					<div
+						style={{
+							color: "var(--vscode-descriptionForeground)",
+							fontSize: "12px",
+							marginBottom: "10px",
+						}}>
+						Cline will ask for approval before every API request once a task or all of today's tasks reach
+						their budget, and will send a notification when spending reaches the warning percentage. Budgets
+						apply even when auto-approve is off.
+					</div>
 					<div style={{ margin: "6px 0" }}>
 						<VSCodeCheckbox
 							checked={autoApprovalSettings.enableNotifications}
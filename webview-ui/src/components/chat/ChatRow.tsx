@@ -1,15 +1,18 @@
 import { VSCodeBadge, VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
 import deepEqual from "fast-deep-equal"
-import React, { memo, useEffect, useMemo, useRef } from "react"
-import { useSize } from "react-use"
+import React, { memo, useEffect, useMemo, useRef, useState } from "react"
+import { useInterval, useSize } from "react-use"
 import {
 	ClineApiReqInfo,
+	ClineApiRetryStatus,
 	ClineAskUseMcpServer,
+	ClineBudgetLimit,
 	ClineMessage,
 	ClineSayTool,
 } from "../../../../src/shared/ExtensionMessage"
 import { COMMAND_OUTPUT_STRING, COMMAND_REQ_APP_STRING } from "../../../../src/shared/combineCommandSequences"
 import { useExtensionState } from "../../context/ExtensionStateContext"
+import { formatLargeNumber } from "../../utils/format"
 import { findMatchingResourceOrTemplate } from "../../utils/mcp"
 import { vscode } from "../../utils/vscode"
 import CodeAccordian, { removeLeadingNonAlphanumeric } from "../common/CodeAccordian"
@@ -77,12 +80,45 @@ export const ChatRowContent = ({
 	isLast,
 }: ChatRowContentProps) => {
 	const { mcpServers } = useExtensionState()
-	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage] = useMemo(() => {
+	const [
+		cost,
+		apiReqCancelReason,
+		apiReqStreamingFailedMessage,
+		cacheBreak,
+		contextTruncation,
+		cacheBreakpoints,
+		servedBy,
+		providerFailures,
+		retryStatus,
+		reasoningStartedAt,
+	] = useMemo(() => {
 		if (message.text != null && message.say === "api_req_started") {
 			const info: ClineApiReqInfo = JSON.parse(message.text)
-			return [info.cost, info.cancelReason, info.streamingFailedMessage]
+			return [
+				info.cost,
+				info.cancelReason,
+				info.streamingFailedMessage,
+				info.cacheBreak,
+				info.contextTruncation,
+				info.cacheBreakpoints,
+				info.servedBy,
+				info.providerFailures,
+				info.retryStatus,
+				info.reasoningStartedAt,
+			]
 		}
-		return [undefined, undefined, undefined]
+		return [
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+		]
 	}, [message.text, message.say])
 	// when resuming task, last wont be api_req_failed but a resume_task message, so api_req_started will show loading spinner. that's why we just remove the last api_req_started that failed without streaming anything
 	const apiRequestFailedMessage =
@@ -126,6 +162,13 @@ export const ChatRowContent = ({
 						style={{ color: errorColor, marginBottom: "-1.5px" }}></span>,
 					<span style={{ color: errorColor, fontWeight: "bold" }}>Maximum Requests Reached</span>,
 				]
+			case "budget_limit_reached":
+				return [
+					<span
+						className="codicon codicon-warning"
+						style={{ color: errorColor, marginBottom: "-1.5px" }}></span>,
+					<span style={{ color: errorColor, fontWeight: "bold" }}>Budget Reached</span>,
+				]
 			case "command":
 				return [
 					isCommandExecuting ? (
@@ -677,6 +720,12 @@ export const ChatRowContent = ({
 								</div>
 								<span className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`}></span>
 							</div>
+							{retryStatus && cost == null && !apiRequestFailedMessage && (
+								<RetryCountdown retryStatus={retryStatus} />
+							)}
+							{reasoningStartedAt && cost == null && apiReqCancelReason == null && (
+								<ReasoningProgress startedAt={reasoningStartedAt} />
+							)}
 							{((cost == null && apiRequestFailedMessage) || apiReqStreamingFailedMessage) && (
 								<>
 									<p style={{ ...pStyle, color: "var(--vscode-errorForeground)" }}>
@@ -731,8 +780,94 @@ export const ChatRowContent = ({
 								</>
 							)}
 
+							{contextTruncation && (
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										gap: "6px",
+										marginTop: "6px",
+										fontSize: "12px",
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									<span className="codicon codicon-fold" style={{ fontSize: "12px" }}></span>
+									<span>
+										{contextTruncation.reason === "cache_expired"
+											? "Context condensed after the prompt cache expired"
+											: contextTruncation.reason === "context_overflow"
+												? "Context truncated after the provider rejected the prompt as too long"
+												: "Context truncated"}
+										: removed {contextTruncation.removedMessages} messages,{" "}
+										{formatLargeNumber(contextTruncation.rewriteTokens)} tokens to re-cache (~$
+										{contextTruncation.rewriteCost.toFixed(4)})
+									</span>
+								</div>
+							)}
+
+							{servedBy && providerFailures && (
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										gap: "6px",
+										marginTop: "6px",
+										fontSize: "12px",
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									<span className="codicon codicon-arrow-swap" style={{ fontSize: "12px" }}></span>
+									<span>
+										Served by {servedBy.apiProvider} ({servedBy.modelId}) after{" "}
+										{providerFailures.map((failure) => failure.apiProvider).join(", ")} failed
+									</span>
+								</div>
+							)}
+
+							{cacheBreak && cost != null && (
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										gap: "6px",
+										marginTop: "6px",
+										fontSize: "12px",
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									<span
+										className="codicon codicon-debug-disconnect"
+										style={{ fontSize: "12px" }}></span>
+									<span>Prompt cache miss: {cacheBreak.reason}</span>
+								</div>
+							)}
+
 							{isExpanded && (
 								<div style={{ marginTop: "10px" }}>
+									{providerFailures?.map((failure, index) => (
+										<div
+											key={index}
+											style={{
+												marginBottom: "6px",
+												fontSize: "12px",
+												color: "var(--vscode-descriptionForeground)",
+											}}>
+											{failure.apiProvider} ({failure.modelId}) failed: {failure.error}
+										</div>
+									))}
+									{cacheBreakpoints && cacheBreakpoints.length > 0 && (
+										<div
+											style={{
+												marginBottom: "6px",
+												fontSize: "12px",
+												color: "var(--vscode-descriptionForeground)",
+											}}>
+											Cache breakpoints:{" "}
+											{cacheBreakpoints
+												.map(
+													(breakpoint) =>
+														`${breakpoint.position} ~${formatLargeNumber(breakpoint.tokens)} tokens`,
+												)
+												.join(" · ")}
+										</div>
+									)}
 									<CodeAccordian
 										code={JSON.parse(message.text || "{}").request}
 										language="markdown"
@@ -751,6 +886,54 @@ export const ChatRowContent = ({
 							<Markdown markdown={message.text} />
 						</div>
 					)
+				case "reasoning":
+					return (
+						<div
+							style={{
+								borderRadius: 3,
+								border: "1px solid var(--vscode-editorGroup-border)",
+								overflow: "hidden",
+							}}>
+							<div
+								onClick={onToggleExpand}
+								style={{
+									display: "flex",
+									alignItems: "center",
+									gap: "6px",
+									padding: "6px 8px",
+									cursor: "pointer",
+									userSelect: "none",
+									color: "var(--vscode-descriptionForeground)",
+								}}>
+								<span className="codicon codicon-lightbulb"></span>
+								<span style={{ fontWeight: "bold" }}>
+									{message.partial ? "Reasoning..." : "Reasoning"}
+								</span>
+								{!isExpanded && message.partial && (
+									// the latest line, so the reasoning can be followed live without expanding it
+									<span
+										style={{
+											flex: 1,
+											minWidth: 0,
+											overflow: "hidden",
+											textOverflow: "ellipsis",
+											whiteSpace: "nowrap",
+											fontStyle: "italic",
+										}}>
+										{message.text?.trim().split("\n").at(-1)}
+									</span>
+								)}
+								<span
+									className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`}
+									style={{ marginLeft: "auto" }}></span>
+							</div>
+							{isExpanded && (
+								<div style={{ padding: "0 8px", opacity: 0.8 }}>
+									<Markdown markdown={message.text} />
+								</div>
+							)}
+						</div>
+					)
 				case "user_feedback":
 					return (
 						<div
@@ -934,6 +1117,25 @@ export const ChatRowContent = ({
 							<p style={{ ...pStyle, color: "var(--vscode-errorForeground)" }}>{message.text}</p>
 						</>
 					)
+				case "budget_limit_reached": {
+					const budget: ClineBudgetLimit = JSON.parse(message.text || "{}")
+					return (
+						<>
+							<div style={headerStyle}>
+								{icon}
+								{title}
+							</div>
+							<p style={{ ...pStyle, color: "var(--vscode-errorForeground)" }}>
+								Cline has spent ${budget.spent.toFixed(2)} of the ${budget.limit.toFixed(2)}{" "}
+								{budget.scope} budget.{" "}
+								{budget.projectedCost !== undefined
+									? `The next request is expected to cost about $${budget.projectedCost.toFixed(4)}.`
+									: "The cost of the next request can't be estimated yet."}{" "}
+								Would you like to approve it?
+							</p>
+						</>
+					)
+				}
 				case "completion_result":
 					if (message.text) {
 						return (
@@ -970,6 +1172,29 @@ export const ChatRowContent = ({
 	}
 }
 
+const RetryCountdown = ({ retryStatus }: { retryStatus: ClineApiRetryStatus }) => {
+	const [now, setNow] = useState(Date.now())
+	const secondsLeft = Math.max(0, Math.ceil((retryStatus.retryAt - now) / 1000))
+	useInterval(() => setNow(Date.now()), secondsLeft > 0 ? 1000 : null)
+	return (
+		<p style={{ margin: "10px 0 0 0", fontSize: "12px", color: "var(--vscode-descriptionForeground)" }}>
+			{secondsLeft > 0 ? `Retrying in ${secondsLeft}s` : "Retrying"} (attempt {retryStatus.attempt} of{" "}
+			{retryStatus.maxAttempts}): {retryStatus.error}
+		</p>
+	)
+}
+
+const ReasoningProgress = ({ startedAt }: { startedAt: number }) => {
+	const [now, setNow] = useState(Date.now())
+	useInterval(() => setNow(Date.now()), 1000)
+	return (
+		<p style={{ margin: "10px 0 0 0", fontSize: "12px", color: "var(--vscode-descriptionForeground)" }}>
+			Reasoning for {Math.max(0, Math.floor((now - startedAt) / 1000))}s. The response is shown once it's
+			complete.
+		</p>
+	)
+}
+
 export const ProgressIndicator = () => (
 	<div
 		style={{
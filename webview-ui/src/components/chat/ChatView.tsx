@@ -96,6 +96,13 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 							setPrimaryButtonText("Proceed")
 							setSecondaryButtonText("Start New Task")
 							break
+						case "budget_limit_reached":
+							setTextAreaDisabled(true)
+							setClineAsk("budget_limit_reached")
+							setEnableButtons(true)
+							setPrimaryButtonText("Approve Next Request")
+							setSecondaryButtonText("Start New Task")
+							break
 						case "followup":
 							setTextAreaDisabled(isPartial)
 							setClineAsk("followup")
@@ -191,6 +198,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 						case "error":
 						case "api_req_finished":
 						case "text":
+						case "reasoning":
 						case "browser_action":
 						case "browser_action_result":
 						case "browser_action_launch":
@@ -313,6 +321,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 			case "resume_task":
 			case "mistake_limit_reached":
 			case "auto_approval_max_req_reached":
+			case "budget_limit_reached":
 				vscode.postMessage({ type: "askResponse", askResponse: "yesButtonClicked" })
 				break
 			case "completion_result":
@@ -340,6 +349,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 			case "api_req_failed":
 			case "mistake_limit_reached":
 			case "auto_approval_max_req_reached":
+			case "budget_limit_reached":
 				startNewTask()
 				break
 			case "command":
@@ -724,6 +734,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 					task={task}
 					tokensIn={apiMetrics.totalTokensIn}
 					tokensOut={apiMetrics.totalTokensOut}
+					reasoningTokens={apiMetrics.totalReasoningTokens}
 					doesModelSupportPromptCache={selectedModelInfo.supportsPromptCache}
 					cacheWrites={apiMetrics.totalCacheWrites}
 					cacheReads={apiMetrics.totalCacheReads}
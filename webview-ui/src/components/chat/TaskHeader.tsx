@@ -1,10 +1,11 @@
 import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
 import React, { memo, useEffect, useMemo, useRef, useState } from "react"
-import { useWindowSize } from "react-use"
+import { useInterval, useWindowSize } from "react-use"
 import { ClineMessage } from "../../../../src/shared/ExtensionMessage"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { vscode } from "../../utils/vscode"
 import Thumbnails from "../common/Thumbnails"
+import ApiProfileSelect from "../settings/ApiProfileSelect"
 import { mentionRegexGlobal } from "../../../../src/shared/context-mentions"
 import { formatLargeNumber } from "../../utils/format"
 
@@ -12,6 +13,7 @@ interface TaskHeaderProps {
 	task: ClineMessage
 	tokensIn: number
 	tokensOut: number
+	reasoningTokens?: number
 	doesModelSupportPromptCache: boolean
 	cacheWrites?: number
 	cacheReads?: number
@@ -23,13 +25,14 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	task,
 	tokensIn,
 	tokensOut,
+	reasoningTokens,
 	doesModelSupportPromptCache,
 	cacheWrites,
 	cacheReads,
 	totalCost,
 	onClose,
 }) => {
-	const { apiConfiguration } = useExtensionState()
+	const { apiConfiguration, apiConfigurationProfiles, promptCacheStatus, condenseOnCacheExpiry } = useExtensionState()
 	const [isTaskExpanded, setIsTaskExpanded] = useState(true)
 	const [isTextExpanded, setIsTextExpanded] = useState(false)
 	const [showSeeMore, setShowSeeMore] = useState(false)
@@ -70,6 +73,12 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 
 	const { height: windowHeight, width: windowWidth } = useWindowSize()
 
+	// re-check periodically since the cache expires without any new messages
+	const [now, setNow] = useState(Date.now())
+	useInterval(() => setNow(Date.now()), promptCacheStatus ? 15_000 : null)
+	const isPromptCacheExpired =
+		promptCacheStatus !== undefined && now - promptCacheStatus.lastRequestAt > promptCacheStatus.ttl
+
 	useEffect(() => {
 		if (isTextExpanded && textContainerRef.current) {
 			const maxHeight = windowHeight * (1 / 2)
@@ -97,6 +106,7 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 			apiConfiguration?.apiProvider !== "openai" &&
 			apiConfiguration?.apiProvider !== "ollama" &&
 			apiConfiguration?.apiProvider !== "lmstudio" &&
+			apiConfiguration?.apiProvider !== "llamacpp" &&
 			apiConfiguration?.apiProvider !== "gemini"
 		)
 	}, [apiConfiguration?.apiProvider])
@@ -268,6 +278,17 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 										/>
 										{formatLargeNumber(tokensOut || 0)}
 									</span>
+									{reasoningTokens !== undefined && (
+										<span
+											title="Reasoning tokens"
+											style={{ display: "flex", alignItems: "center", gap: "3px" }}>
+											<i
+												className="codicon codicon-lightbulb"
+												style={{ fontSize: "12px", fontWeight: "bold", marginBottom: "-2px" }}
+											/>
+											{formatLargeNumber(reasoningTokens)}
+										</span>
+									)}
 								</div>
 								{!isCostAvailable && <ExportButton />}
 							</div>
@@ -291,6 +312,23 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 									</span>
 								</div>
 							)}
+							{apiConfigurationProfiles.length > 0 && (
+								<div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+									<span style={{ fontWeight: "bold" }}>Profile:</span>
+									<ApiProfileSelect style={{ minWidth: 0, flexGrow: 1 }} />
+								</div>
+							)}
+							{isPromptCacheExpired && (
+								<div style={{ display: "flex", alignItems: "center", gap: "4px", flexWrap: "wrap" }}>
+									<i className="codicon codicon-history" style={{ fontSize: "12px" }} />
+									<span>
+										Prompt cache likely expired.{" "}
+										{condenseOnCacheExpiry
+											? "The context will be condensed when the task is resumed."
+											: `Resuming will re-write ~${formatLargeNumber(promptCacheStatus.rewriteTokens)} tokens (~$${promptCacheStatus.rewriteCost.toFixed(4)}).`}
+									</span>
+								</div>
+							)}
 							{isCostAvailable && (
 								<div
 									style={{
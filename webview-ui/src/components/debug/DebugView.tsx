@@ -4,6 +4,8 @@ import React, { useCallback, useEffect, useState, useMemo } from 'react';
 import { useExtensionState } from "../../context/ExtensionStateContext";
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
+import { getApiMetrics } from "../../../../src/shared/getApiMetrics";
+import PromptCacheAnalyticsPanel from "./PromptCacheAnalyticsPanel";
 
 // Define metrics interface for display purposes
 interface ApiMetrics {
@@ -167,24 +169,10 @@ const DebugView: React.FC<DebugViewProps> = ({ onDone }) => {
   const [isCheckingUpdate, setIsCheckingUpdate] = useState(false);
   const [isLatestBranch] = useState(false);
 
+  // totals across every request of the current task
   const metrics = useMemo(() => {
-    if (!clineMessages.length) return undefined;
-    const lastApiReqIndex = clineMessages.findIndex(m => m.say === "api_req_started");
-    if (lastApiReqIndex === -1) return undefined;
-    const lastApiReq = clineMessages[lastApiReqIndex];
-    if (!lastApiReq.text) return undefined;
-    try {
-      const info = JSON.parse(lastApiReq.text);
-      return {
-        totalTokensIn: info.tokensIn,
-        totalTokensOut: info.tokensOut,
-        totalCacheWrites: info.cacheWrites,
-        totalCacheReads: info.cacheReads,
-        totalCost: info.cost
-      };
-    } catch {
-      return undefined;
-    }
+    if (!clineMessages.some(m => m.say === "api_req_started")) return undefined;
+    return getApiMetrics(clineMessages);
   }, [clineMessages]);
 
   // Pull Request Form State
@@ -888,6 +876,16 @@ const DebugView: React.FC<DebugViewProps> = ({ onDone }) => {
               ))}
             </div>
           </div>
+          <div style={{ marginBottom: "16px" }}>
+            <h4 style={{ margin: "0 0 8px 0", fontSize: "13px" }}>Prompt Cache Analytics</h4>
+            <div style={{
+              padding: "8px",
+              backgroundColor: "var(--vscode-textBlockQuote-background)",
+              borderRadius: "4px",
+            }}>
+              <PromptCacheAnalyticsPanel />
+            </div>
+          </div>
           <div>
             <h4 style={{ margin: "0 0 8px 0", fontSize: "13px" }}>Local LLM Status</h4>
             <div style={{
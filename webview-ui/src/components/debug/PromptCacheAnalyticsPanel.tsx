@@ -0,0 +1,106 @@
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { memo, useMemo } from "react"
+import { getPromptCacheAnalytics, PromptCacheRequestStats } from "../../../../src/shared/getPromptCacheAnalytics"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { formatLargeNumber } from "../../utils/format"
+import { vscode } from "../../utils/vscode"
+
+const TIMELINE_HEIGHT = 48
+
+const describeRequest = (request: PromptCacheRequestStats, index: number) =>
+	[
+		`Request ${index + 1} (${new Date(request.ts).toLocaleTimeString()})`,
+		`Hit ratio: ${(request.hitRatio * 100).toFixed(1)}%`,
+		`Cache reads: ${formatLargeNumber(request.cacheReads)}, writes: ${formatLargeNumber(request.cacheWrites)}, uncached: ${formatLargeNumber(request.tokensIn)}`,
+		`Cost: $${request.cost.toFixed(4)}, saved so far: $${request.cumulativeSavings.toFixed(4)}`,
+		request.unreadCacheWrites > 0 && `Cache writes never read: ${formatLargeNumber(request.unreadCacheWrites)}`,
+		request.cacheBreak && `Cache break: ${request.cacheBreak.reason}`,
+	]
+		.filter(Boolean)
+		.join("\n")
+
+const PromptCacheAnalyticsPanel = () => {
+	const { clineMessages } = useExtensionState()
+	const analytics = useMemo(() => getPromptCacheAnalytics(clineMessages), [clineMessages])
+	const { requests } = analytics
+
+	if (requests.length === 0) {
+		return <div style={{ fontSize: "12px", opacity: 0.8 }}>No API requests in the current task yet</div>
+	}
+
+	const stats = [
+		["Requests", requests.length],
+		["Hit ratio", `${(analytics.hitRatio * 100).toFixed(1)}%`],
+		["Total cost", `$${analytics.totalCost.toFixed(4)}`],
+		["Saved vs. no cache", `$${analytics.totalSavings.toFixed(4)}`],
+		["Cache writes never read", formatLargeNumber(analytics.unreadCacheWrites)],
+		["Cache breaks", analytics.cacheBreaks],
+	]
+
+	return (
+		<div style={{ display: "flex", flexDirection: "column", gap: "10px", fontSize: "12px" }}>
+			<div
+				style={{
+					display: "grid",
+					gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))",
+					gap: "8px",
+				}}>
+				{stats.map(([label, value]) => (
+					<div key={label}>
+						<div style={{ color: "var(--vscode-textPreformat-foreground)", marginBottom: "2px" }}>
+							{label}
+						</div>
+						<div>{value}</div>
+					</div>
+				))}
+			</div>
+
+			<div>
+				<div style={{ marginBottom: "4px" }}>Hit ratio per request</div>
+				<div style={{ display: "flex", alignItems: "flex-end", gap: "2px", height: TIMELINE_HEIGHT }}>
+					{requests.map((request, index) => (
+						<div
+							key={request.ts}
+							title={describeRequest(request, index)}
+							style={{
+								flex: 1,
+								maxWidth: "12px",
+								height: Math.max(2, request.hitRatio * TIMELINE_HEIGHT),
+								backgroundColor: request.cacheBreak
+									? "var(--vscode-testing-iconFailed)"
+									: "var(--vscode-testing-iconPassed)",
+							}}
+						/>
+					))}
+				</div>
+				<div style={{ marginTop: "4px", opacity: 0.8 }}>
+					Red bars are requests where the cache broke. Hover a bar for details.
+				</div>
+			</div>
+
+			{analytics.cacheBreaks > 0 && (
+				<div>
+					<div style={{ marginBottom: "4px" }}>Cache breaks</div>
+					{requests.map(
+						(request, index) =>
+							request.cacheBreak && (
+								<div key={request.ts} style={{ marginBottom: "2px" }}>
+									<span style={{ fontWeight: 500 }}>Request {index + 1}:</span>{" "}
+									{request.cacheBreak.reason}
+								</div>
+							),
+					)}
+				</div>
+			)}
+
+			<VSCodeButton
+				appearance="secondary"
+				style={{ alignSelf: "flex-start" }}
+				onClick={() => vscode.postMessage({ type: "exportPromptCacheAnalytics" })}>
+				Export CSV
+			</VSCodeButton>
+		</div>
+	)
+}
+
+export default memo(PromptCacheAnalyticsPanel)
@@ -0,0 +1,65 @@
+import { VSCodeButton, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { memo, useState } from "react"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+import ApiProfileSelect from "./ApiProfileSelect"
+
+const ApiConfigurationProfiles = () => {
+	const { apiConfiguration, currentApiConfigurationProfile } = useExtensionState()
+	const [newProfileName, setNewProfileName] = useState("")
+
+	const handleSave = () => {
+		const name = newProfileName.trim()
+		if (!name) {
+			return
+		}
+		// saves the settings as currently edited, not just what was last submitted
+		vscode.postMessage({ type: "saveApiConfigurationProfile", text: name, apiConfiguration })
+		setNewProfileName("")
+	}
+
+	return (
+		<div style={{ marginBottom: 5 }}>
+			<span style={{ fontWeight: 500 }}>API Profile</span>
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginTop: 4 }}>
+				<ApiProfileSelect style={{ flexGrow: 1 }} />
+				{currentApiConfigurationProfile && (
+					<VSCodeButton
+						appearance="icon"
+						title="Delete profile"
+						onClick={() =>
+							vscode.postMessage({
+								type: "deleteApiConfigurationProfile",
+								text: currentApiConfigurationProfile,
+							})
+						}>
+						<span className="codicon codicon-trash"></span>
+					</VSCodeButton>
+				)}
+			</div>
+			<div style={{ display: "flex", alignItems: "center", gap: 4, marginTop: 4 }}>
+				<VSCodeTextField
+					value={newProfileName}
+					placeholder="Profile name, e.g. Local Qwen"
+					style={{ flexGrow: 1 }}
+					onInput={(e: any) => setNewProfileName(e.target?.value ?? "")}
+					onKeyDown={(e: any) => e.key === "Enter" && handleSave()}
+				/>
+				<VSCodeButton appearance="secondary" disabled={!newProfileName.trim()} onClick={handleSave}>
+					Save as profile
+				</VSCodeButton>
+			</div>
+			<p
+				style={{
+					fontSize: "12px",
+					marginTop: "5px",
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				Save the provider settings below under a name to switch between them later, here or from the task
+				header. Changes made while a profile is selected are saved to it.
+			</p>
+		</div>
+	)
+}
+
+export default memo(ApiConfigurationProfiles)
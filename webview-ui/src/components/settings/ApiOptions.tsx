@@ -17,20 +17,34 @@ import {
 	azureOpenAiDefaultApiVersion,
 	bedrockDefaultModelId,
 	bedrockModels,
+	defaultCacheBreakpointPolicy,
+	deepSeekDefaultModelId,
+	deepSeekModels,
 	geminiDefaultModelId,
 	geminiModels,
+	getVertexPublisher,
+	isReasoningModel,
+	modelInfoOverrideProviders,
+	nativeToolCallProviders,
 	openAiModelInfoSaneDefaults,
 	openAiNativeDefaultModelId,
 	openAiNativeModels,
 	openRouterDefaultModelId,
 	openRouterDefaultModelInfo,
+	ReasoningEffort,
+	reasoningModelProviders,
+	scriptedModelInfo,
 	vertexDefaultModelId,
 	vertexModels,
+	vertexPublisherNames,
 } from "../../../../src/shared/api"
 import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { getModelInfoWithOverride } from "../../../../src/shared/modelInfoOverrides"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { vscode } from "../../utils/vscode"
 import VSCodeButtonLink from "../common/VSCodeButtonLink"
+import ModelInfoOverrides from "./ModelInfoOverrides"
+import OllamaModelOptions from "./OllamaModelOptions"
 import OpenRouterModelPicker, {
 	ModelDescriptionMarkdown,
 	OPENROUTER_MODEL_PICKER_Z_INDEX,
@@ -45,8 +59,12 @@ interface ApiOptionsProps {
 const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }: ApiOptionsProps) => {
 	const { apiConfiguration, setApiConfiguration, uriScheme } = useExtensionState()
 	const [ollamaModels, setOllamaModels] = useState<string[]>([])
-	const [lmStudioModels, setLmStudioModels] = useState<string[]>([])
+	const [lmStudioModels, setLmStudioModels] = useState<Record<string, Partial<ModelInfo>>>({})
+	const [llamaCppModels, setLlamaCppModels] = useState<Record<string, Partial<ModelInfo>>>({})
 	const [anthropicBaseUrlSelected, setAnthropicBaseUrlSelected] = useState(!!apiConfiguration?.anthropicBaseUrl)
+	const [geminiBaseUrlSelected, setGeminiBaseUrlSelected] = useState(!!apiConfiguration?.geminiBaseUrl)
+	const [deepSeekBaseUrlSelected, setDeepSeekBaseUrlSelected] = useState(!!apiConfiguration?.deepSeekBaseUrl)
+	const [vertexBaseUrlSelected, setVertexBaseUrlSelected] = useState(!!apiConfiguration?.vertexBaseUrl)
 	const [azureApiVersionSelected, setAzureApiVersionSelected] = useState(!!apiConfiguration?.azureApiVersion)
 	const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false)
 
@@ -58,20 +76,29 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 		return normalizeApiConfiguration(apiConfiguration)
 	}, [apiConfiguration])
 
-	// Poll ollama/lmstudio models
+	// Poll ollama/lmstudio/llama.cpp models
+	const isLocalProvider =
+		selectedProvider === "ollama" || selectedProvider === "lmstudio" || selectedProvider === "llamacpp"
 	const requestLocalModels = useCallback(() => {
 		if (selectedProvider === "ollama") {
 			vscode.postMessage({ type: "requestOllamaModels", text: apiConfiguration?.ollamaBaseUrl })
 		} else if (selectedProvider === "lmstudio") {
 			vscode.postMessage({ type: "requestLmStudioModels", text: apiConfiguration?.lmStudioBaseUrl })
+		} else if (selectedProvider === "llamacpp") {
+			vscode.postMessage({ type: "requestLlamaCppModels", text: apiConfiguration?.llamaCppBaseUrl })
 		}
-	}, [selectedProvider, apiConfiguration?.ollamaBaseUrl, apiConfiguration?.lmStudioBaseUrl])
+	}, [
+		selectedProvider,
+		apiConfiguration?.ollamaBaseUrl,
+		apiConfiguration?.lmStudioBaseUrl,
+		apiConfiguration?.llamaCppBaseUrl,
+	])
 	useEffect(() => {
-		if (selectedProvider === "ollama" || selectedProvider === "lmstudio") {
+		if (isLocalProvider) {
 			requestLocalModels()
 		}
-	}, [selectedProvider, requestLocalModels])
-	useInterval(requestLocalModels, selectedProvider === "ollama" || selectedProvider === "lmstudio" ? 2000 : null)
+	}, [isLocalProvider, requestLocalModels])
+	useInterval(requestLocalModels, isLocalProvider ? 2000 : null)
 
 	const handleMessage = useCallback((event: MessageEvent) => {
 		const message: ExtensionMessage = event.data
@@ -79,10 +106,31 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 			setOllamaModels(message.ollamaModels)
 		} else if (message.type === "lmStudioModels" && message.lmStudioModels) {
 			setLmStudioModels(message.lmStudioModels)
+		} else if (message.type === "llamaCppModels" && message.llamaCppModels) {
+			setLlamaCppModels(message.llamaCppModels)
 		}
 	}, [])
 	useEvent("message", handleMessage)
 
+	// keep what the server reports about the selected model with the configuration, so image support and truncation match how it's loaded
+	useEffect(() => {
+		const reported =
+			selectedProvider === "lmstudio"
+				? { field: "lmStudioModelInfo" as const, models: lmStudioModels }
+				: selectedProvider === "llamacpp"
+					? { field: "llamaCppModelInfo" as const, models: llamaCppModels }
+					: undefined
+		// nothing is known about the models while the server can't be reached
+		if (!reported || Object.keys(reported.models).length === 0) {
+			return
+		}
+		const info = reported.models[selectedModelId]
+		if (JSON.stringify(info) !== JSON.stringify(apiConfiguration?.[reported.field])) {
+			setApiConfiguration({ ...apiConfiguration, [reported.field]: info })
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [selectedProvider, selectedModelId, lmStudioModels, llamaCppModels])
+
 	/*
 	VSCodeDropdown has an open bug where dynamically rendered options don't auto select the provided value prop. You can see this for yourself by comparing  it with normal select/option elements, which work as expected.
 	https://github.com/microsoft/vscode-webview-ui-toolkit/issues/433
@@ -91,7 +139,7 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 
 	As a workaround, we create separate instances of the dropdown for each provider, and then conditionally render the one that matches the current provider.
 	*/
-	const createDropdown = (models: Record<string, ModelInfo>) => {
+	const createDropdown = (models: Record<string, ModelInfo>, getGroup?: (modelId: string) => string) => {
 		return (
 			<VSCodeDropdown
 				id="model-id"
@@ -99,18 +147,31 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 				onChange={handleInputChange("apiModelId")}
 				style={{ width: "100%" }}>
 				<VSCodeOption value="">Select a model...</VSCodeOption>
-				{Object.keys(models).map((modelId) => (
-					<VSCodeOption
-						key={modelId}
-						value={modelId}
-						style={{
-							whiteSpace: "normal",
-							wordWrap: "break-word",
-							maxWidth: "100%",
-						}}>
-						{modelId}
-					</VSCodeOption>
-				))}
+				{Object.keys(models).flatMap((modelId, index, modelIds) => {
+					const option = (
+						<VSCodeOption
+							key={modelId}
+							value={modelId}
+							style={{
+								whiteSpace: "normal",
+								wordWrap: "break-word",
+								maxWidth: "100%",
+							}}>
+							{modelId}
+						</VSCodeOption>
+					)
+					const group = getGroup?.(modelId)
+					if (!group || (index > 0 && getGroup?.(modelIds[index - 1]) === group)) {
+						return [option]
+					}
+					// the dropdown doesn't support option groups, so a disabled option heads each group
+					return [
+						<VSCodeOption key={`group-${group}`} value="" disabled style={{ fontWeight: 500 }}>
+							{group}
+						</VSCodeOption>,
+						option,
+					]
+				})}
 			</VSCodeDropdown>
 		)
 	}
@@ -132,9 +193,12 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 					<VSCodeOption value="vertex">GCP Vertex AI</VSCodeOption>
 					<VSCodeOption value="bedrock">AWS Bedrock</VSCodeOption>
 					<VSCodeOption value="openai-native">OpenAI</VSCodeOption>
+					<VSCodeOption value="deepseek">DeepSeek</VSCodeOption>
 					<VSCodeOption value="openai">OpenAI Compatible</VSCodeOption>
 					<VSCodeOption value="lmstudio">LM Studio</VSCodeOption>
+					<VSCodeOption value="llamacpp">llama.cpp</VSCodeOption>
 					<VSCodeOption value="ollama">Ollama</VSCodeOption>
+					<VSCodeOption value="scripted">Scripted (Testing)</VSCodeOption>
 				</VSCodeDropdown>
 			</div>
 
@@ -217,6 +281,57 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 				</div>
 			)}
 
+			{selectedProvider === "deepseek" && (
+				<div>
+					<VSCodeTextField
+						value={apiConfiguration?.deepSeekApiKey || ""}
+						style={{ width: "100%" }}
+						type="password"
+						onInput={handleInputChange("deepSeekApiKey")}
+						placeholder="Enter API Key...">
+						<span style={{ fontWeight: 500 }}>DeepSeek API Key</span>
+					</VSCodeTextField>
+
+					<VSCodeCheckbox
+						checked={deepSeekBaseUrlSelected}
+						onChange={(e: any) => {
+							const isChecked = e.target.checked === true
+							setDeepSeekBaseUrlSelected(isChecked)
+							if (!isChecked) {
+								setApiConfiguration({ ...apiConfiguration, deepSeekBaseUrl: "" })
+							}
+						}}>
+						Use custom base URL
+					</VSCodeCheckbox>
+
+					{deepSeekBaseUrlSelected && (
+						<VSCodeTextField
+							value={apiConfiguration?.deepSeekBaseUrl || ""}
+							style={{ width: "100%", marginTop: 3 }}
+							type="url"
+							onInput={handleInputChange("deepSeekBaseUrl")}
+							placeholder="Default: https://api.deepseek.com"
+						/>
+					)}
+
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: 3,
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						This key is stored locally and only used to make API requests from this extension.
+						{!apiConfiguration?.deepSeekApiKey && (
+							<VSCodeLink
+								href="https://platform.deepseek.com/api_keys"
+								style={{ display: "inline", fontSize: "inherit" }}>
+								You can get a DeepSeek API key by signing up here.
+							</VSCodeLink>
+						)}
+					</p>
+				</div>
+			)}
+
 			{selectedProvider === "openrouter" && (
 				<div>
 					<VSCodeTextField
@@ -362,6 +477,29 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 							<VSCodeOption value="asia-southeast1">asia-southeast1</VSCodeOption>
 						</VSCodeDropdown>
 					</div>
+
+					<VSCodeCheckbox
+						checked={vertexBaseUrlSelected}
+						onChange={(e: any) => {
+							const isChecked = e.target.checked === true
+							setVertexBaseUrlSelected(isChecked)
+							if (!isChecked) {
+								setApiConfiguration({ ...apiConfiguration, vertexBaseUrl: "" })
+							}
+						}}>
+						Use custom base URL
+					</VSCodeCheckbox>
+
+					{vertexBaseUrlSelected && (
+						<VSCodeTextField
+							value={apiConfiguration?.vertexBaseUrl || ""}
+							style={{ width: "100%", marginTop: 3 }}
+							type="url"
+							onInput={handleInputChange("vertexBaseUrl")}
+							placeholder="Default: https://{region}-aiplatform.googleapis.com"
+						/>
+					)}
+
 					<p
 						style={{
 							fontSize: "12px",
@@ -373,14 +511,15 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 							href="https://cloud.google.com/vertex-ai/generative-ai/docs/partner-models/use-claude#before_you_begin"
 							style={{ display: "inline", fontSize: "inherit" }}>
 							{
-								"1) create a Google Cloud account › enable the Vertex AI API › enable the desired Claude models,"
+								"1) create a Google Cloud account › enable the Vertex AI API › enable the desired models in the Model Garden,"
 							}
 						</VSCodeLink>{" "}
 						<VSCodeLink
 							href="https://cloud.google.com/docs/authentication/provide-credentials-adc#google-idp"
 							style={{ display: "inline", fontSize: "inherit" }}>
 							{"2) install the Google Cloud CLI › configure Application Default Credentials."}
-						</VSCodeLink>
+						</VSCodeLink>{" "}
+						Claude models are only available in some regions, Llama models in us-central1.
 					</p>
 				</div>
 			)}
@@ -395,6 +534,29 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 						placeholder="Enter API Key...">
 						<span style={{ fontWeight: 500 }}>Gemini API Key</span>
 					</VSCodeTextField>
+
+					<VSCodeCheckbox
+						checked={geminiBaseUrlSelected}
+						onChange={(e: any) => {
+							const isChecked = e.target.checked === true
+							setGeminiBaseUrlSelected(isChecked)
+							if (!isChecked) {
+								setApiConfiguration({ ...apiConfiguration, geminiBaseUrl: "" })
+							}
+						}}>
+						Use custom base URL
+					</VSCodeCheckbox>
+
+					{geminiBaseUrlSelected && (
+						<VSCodeTextField
+							value={apiConfiguration?.geminiBaseUrl || ""}
+							style={{ width: "100%", marginTop: 3 }}
+							type="url"
+							onInput={handleInputChange("geminiBaseUrl")}
+							placeholder="Default: https://generativelanguage.googleapis.com"
+						/>
+					)}
+
 					<p
 						style={{
 							fontSize: "12px",
@@ -488,11 +650,11 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 						placeholder={"e.g. meta-llama-3.1-8b-instruct"}>
 						<span style={{ fontWeight: 500 }}>Model ID</span>
 					</VSCodeTextField>
-					{lmStudioModels.length > 0 && (
+					{Object.keys(lmStudioModels).length > 0 && (
 						<VSCodeRadioGroup
 							value={
-								lmStudioModels.includes(apiConfiguration?.lmStudioModelId || "")
-									? apiConfiguration?.lmStudioModelId
+								apiConfiguration?.lmStudioModelId && apiConfiguration.lmStudioModelId in lmStudioModels
+									? apiConfiguration.lmStudioModelId
 									: ""
 							}
 							onChange={(e) => {
@@ -504,12 +666,13 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 									})
 								}
 							}}>
-							{lmStudioModels.map((model) => (
+							{Object.entries(lmStudioModels).map(([model, info]) => (
 								<VSCodeRadio
 									key={model}
 									value={model}
 									checked={apiConfiguration?.lmStudioModelId === model}>
 									{model}
+									<LocalModelDetails info={info} />
 								</VSCodeRadio>
 							))}
 						</VSCodeRadioGroup>
@@ -540,6 +703,72 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 				</div>
 			)}
 
+			{selectedProvider === "llamacpp" && (
+				<div>
+					<VSCodeTextField
+						value={apiConfiguration?.llamaCppBaseUrl || ""}
+						style={{ width: "100%" }}
+						type="url"
+						onInput={handleInputChange("llamaCppBaseUrl")}
+						placeholder={"e.g. http://localhost:8080"}>
+						<span style={{ fontWeight: 500 }}>Base URL</span>
+					</VSCodeTextField>
+					<VSCodeTextField
+						value={apiConfiguration?.llamaCppModelId || ""}
+						style={{ width: "100%" }}
+						onInput={handleInputChange("llamaCppModelId")}
+						placeholder={"e.g. qwen2.5-coder-7b-instruct-q4_k_m.gguf"}>
+						<span style={{ fontWeight: 500 }}>Model ID</span>
+					</VSCodeTextField>
+					{Object.keys(llamaCppModels).length > 0 && (
+						<VSCodeRadioGroup
+							value={
+								apiConfiguration?.llamaCppModelId && apiConfiguration.llamaCppModelId in llamaCppModels
+									? apiConfiguration.llamaCppModelId
+									: ""
+							}
+							onChange={(e) => {
+								const value = (e.target as HTMLInputElement)?.value
+								// need to check value first since radio group returns empty string sometimes
+								if (value) {
+									handleInputChange("llamaCppModelId")({
+										target: { value },
+									})
+								}
+							}}>
+							{Object.entries(llamaCppModels).map(([model, info]) => (
+								<VSCodeRadio
+									key={model}
+									value={model}
+									checked={apiConfiguration?.llamaCppModelId === model}>
+									{model}
+									<LocalModelDetails info={info} />
+								</VSCodeRadio>
+							))}
+						</VSCodeRadioGroup>
+					)}
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: "5px",
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						Connects to a self-hosted{" "}
+						<VSCodeLink
+							href="https://github.com/ggml-org/llama.cpp/tree/master/tools/server"
+							style={{ display: "inline", fontSize: "inherit" }}>
+							llama.cpp server.
+						</VSCodeLink>{" "}
+						The context length the server was started with is used for truncation, so start it with a
+						large enough --ctx-size for Cline's prompts.{" "}
+						<span style={{ color: "var(--vscode-errorForeground)" }}>
+							(<span style={{ fontWeight: 500 }}>Note:</span> Cline uses complex prompts and works best
+							with Claude models. Less capable models may not work as expected.)
+						</span>
+					</p>
+				</div>
+			)}
+
 			{selectedProvider === "ollama" && (
 				<div>
 					<VSCodeTextField
@@ -583,6 +812,7 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 							))}
 						</VSCodeRadioGroup>
 					)}
+					<OllamaModelOptions />
 					<p
 						style={{
 							fontSize: "12px",
@@ -604,6 +834,31 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 				</div>
 			)}
 
+			{selectedProvider === "scripted" && (
+				<div>
+					<VSCodeTextField
+						value={apiConfiguration?.scriptedResponsesPath || ""}
+						style={{ width: "100%" }}
+						onInput={handleInputChange("scriptedResponsesPath")}
+						placeholder={"Enter the absolute path of a JSON script..."}>
+						<span style={{ fontWeight: 500 }}>Script Path</span>
+					</VSCodeTextField>
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: "5px",
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						Plays back responses from a local script instead of calling a model, to test tasks, approvals
+						and errors. The script is a JSON object with a <code>responses</code> array, answered in order.
+						Each response can have <code>text</code> (including tool use XML), <code>reasoning</code>,{" "}
+						<code>usage</code> token counts, <code>delayMs</code> and <code>chunkDelayMs</code>, and an{" "}
+						<code>error</code> with a <code>message</code> and HTTP <code>status</code>. Set{" "}
+						<code>loop</code> to start over after the last response.
+					</p>
+				</div>
+			)}
+
 			{apiErrorMessage && (
 				<p
 					style={{
@@ -621,6 +876,8 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 				selectedProvider !== "openai" &&
 				selectedProvider !== "ollama" &&
 				selectedProvider !== "lmstudio" &&
+				selectedProvider !== "llamacpp" &&
+				selectedProvider !== "scripted" &&
 				showModelOptions && (
 					<>
 						<div className="dropdown-container">
@@ -629,9 +886,11 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 							</label>
 							{selectedProvider === "anthropic" && createDropdown(anthropicModels)}
 							{selectedProvider === "bedrock" && createDropdown(bedrockModels)}
-							{selectedProvider === "vertex" && createDropdown(vertexModels)}
+							{selectedProvider === "vertex" &&
+								createDropdown(vertexModels, (modelId) => vertexPublisherNames[getVertexPublisher(modelId)])}
 							{selectedProvider === "gemini" && createDropdown(geminiModels)}
 							{selectedProvider === "openai-native" && createDropdown(openAiNativeModels)}
+							{selectedProvider === "deepseek" && createDropdown(deepSeekModels)}
 						</div>
 
 						<ModelInfoView
@@ -643,6 +902,126 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage }:
 					</>
 				)}
 
+			{(selectedProvider === "anthropic" || selectedModelId.startsWith("anthropic/")) &&
+				selectedModelInfo.supportsPromptCache &&
+				showModelOptions && (
+					<div>
+						<VSCodeCheckbox
+							checked={apiConfiguration?.cacheBreakpointPolicy?.taskMessage ?? false}
+							onChange={(e: any) => {
+								setApiConfiguration({
+									...apiConfiguration,
+									cacheBreakpointPolicy: {
+										...(apiConfiguration?.cacheBreakpointPolicy ?? defaultCacheBreakpointPolicy),
+										taskMessage: e.target.checked === true,
+									},
+								})
+							}}>
+							Cache the initial task message separately
+						</VSCodeCheckbox>
+						<p
+							style={{
+								fontSize: "12px",
+								marginTop: 3,
+								color: "var(--vscode-descriptionForeground)",
+							}}>
+							Adds a cache breakpoint after the task and initial file listing, so they stay cached when
+							older messages are truncated. This helps with large workspaces.
+						</p>
+					</div>
+				)}
+
+			{(selectedProvider === "openai" || selectedProvider === "openai-native" || selectedProvider === "deepseek") &&
+				showModelOptions && (
+					<div>
+						<VSCodeCheckbox
+							checked={apiConfiguration?.cacheAwareEnvironmentDetails ?? false}
+							onChange={(e: any) => {
+								setApiConfiguration({
+									...apiConfiguration,
+									cacheAwareEnvironmentDetails: e.target.checked === true,
+								})
+							}}>
+							Compact environment details for caching
+						</VSCodeCheckbox>
+						<p
+							style={{
+								fontSize: "12px",
+								marginTop: 3,
+								color: "var(--vscode-descriptionForeground)",
+							}}>
+							Keeps the task and initial file listing as a fixed prefix and only sends the latest visible files
+							and open tabs at the end of the request, so more of each request is read from the cache.
+						</p>
+					</div>
+				)}
+
+			{reasoningModelProviders.includes(selectedProvider) && isReasoningModel(selectedModelId) && showModelOptions && (
+				<div className="dropdown-container">
+					<label htmlFor="reasoning-effort">
+						<span style={{ fontWeight: 500 }}>Reasoning Effort</span>
+					</label>
+					<VSCodeDropdown
+						id="reasoning-effort"
+						value={apiConfiguration?.reasoningEffort || ""}
+						onChange={(e: any) => {
+							setApiConfiguration({
+								...apiConfiguration,
+								reasoningEffort: (e.target.value as ReasoningEffort) || undefined,
+							})
+						}}
+						style={{ width: "100%" }}>
+						<VSCodeOption value="">Model default</VSCodeOption>
+						<VSCodeOption value="low">Low</VSCodeOption>
+						<VSCodeOption value="medium">Medium</VSCodeOption>
+						<VSCodeOption value="high">High</VSCodeOption>
+					</VSCodeDropdown>
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: 3,
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						Higher effort gives better answers to hard problems, but the model takes longer and uses more
+						reasoning tokens. Not supported by o1-mini and o1-preview. Responses are shown once they're
+						complete.
+					</p>
+				</div>
+			)}
+
+			{nativeToolCallProviders.includes(selectedProvider) && !isReasoningModel(selectedModelId) && showModelOptions && (
+				<div>
+					<VSCodeCheckbox
+						checked={apiConfiguration?.nativeToolCalls ?? false}
+						onChange={(e: any) => {
+							setApiConfiguration({
+								...apiConfiguration,
+								nativeToolCalls: e.target.checked === true,
+							})
+						}}>
+						Use native tool calling
+					</VSCodeCheckbox>
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: 3,
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						Sends Cline's tools as function definitions instead of describing them in the prompt. Many local
+						and OpenAI compatible models use tools more reliably this way. The model must support function
+						calling.
+					</p>
+				</div>
+			)}
+
+			{modelInfoOverrideProviders.includes(selectedProvider) && selectedModelId && showModelOptions && (
+				<ModelInfoOverrides
+					apiProvider={selectedProvider}
+					modelId={selectedModelId}
+					modelInfo={selectedModelInfo}
+				/>
+			)}
+
 			{modelIdErrorMessage && (
 				<p
 					style={{
@@ -704,7 +1083,7 @@ export const ModelInfoView = ({
 			supportsLabel="Supports computer use"
 			doesNotSupportLabel="Does not support computer use"
 		/>,
-		!isGemini && (
+		(!isGemini || modelInfo.supportsPromptCache) && (
 			<ModelInfoSupportsItem
 				key="supportsPromptCache"
 				isSupported={modelInfo.supportsPromptCache}
@@ -763,6 +1142,19 @@ export const ModelInfoView = ({
 	)
 }
 
+// e.g. "Q4_K_M, 32,768 token context, supports images"
+const LocalModelDetails = ({ info }: { info: Partial<ModelInfo> }) => {
+	const details = [
+		info.quantization,
+		info.contextWindow && `${info.contextWindow.toLocaleString()} token context`,
+		info.supportsImages && "supports images",
+	].filter(Boolean)
+	if (details.length === 0) {
+		return null
+	}
+	return <span style={{ color: "var(--vscode-descriptionForeground)" }}> ({details.join(", ")})</span>
+}
+
 interface ModelInfoSupportsItemProps extends React.HTMLAttributes<HTMLSpanElement> {
 	isSupported: boolean
 	supportsLabel: string
@@ -823,6 +1215,8 @@ export function normalizeApiConfiguration(apiConfiguration?: ApiConfiguration) {
 			return getProviderData(geminiModels, geminiDefaultModelId)
 		case "openai-native":
 			return getProviderData(openAiNativeModels, openAiNativeDefaultModelId)
+		case "deepseek":
+			return getProviderData(deepSeekModels, deepSeekDefaultModelId)
 		case "openrouter":
 			return {
 				selectedProvider: provider,
@@ -833,19 +1227,49 @@ export function normalizeApiConfiguration(apiConfiguration?: ApiConfiguration) {
 			return {
 				selectedProvider: provider,
 				selectedModelId: apiConfiguration?.openAiModelId || "",
-				selectedModelInfo: openAiModelInfoSaneDefaults,
+				selectedModelInfo: getModelInfoWithOverride(
+					apiConfiguration ?? {},
+					provider,
+					apiConfiguration?.openAiModelId || "",
+				),
 			}
 		case "ollama":
 			return {
 				selectedProvider: provider,
 				selectedModelId: apiConfiguration?.ollamaModelId || "",
-				selectedModelInfo: openAiModelInfoSaneDefaults,
+				selectedModelInfo: getModelInfoWithOverride(
+					apiConfiguration ?? {},
+					provider,
+					apiConfiguration?.ollamaModelId || "",
+				),
 			}
 		case "lmstudio":
 			return {
 				selectedProvider: provider,
 				selectedModelId: apiConfiguration?.lmStudioModelId || "",
-				selectedModelInfo: openAiModelInfoSaneDefaults,
+				selectedModelInfo: getModelInfoWithOverride(
+					apiConfiguration ?? {},
+					provider,
+					apiConfiguration?.lmStudioModelId || "",
+					{ ...openAiModelInfoSaneDefaults, ...apiConfiguration?.lmStudioModelInfo },
+				),
+			}
+		case "llamacpp":
+			return {
+				selectedProvider: provider,
+				selectedModelId: apiConfiguration?.llamaCppModelId || "",
+				selectedModelInfo: getModelInfoWithOverride(
+					apiConfiguration ?? {},
+					provider,
+					apiConfiguration?.llamaCppModelId || "",
+					{ ...openAiModelInfoSaneDefaults, ...apiConfiguration?.llamaCppModelInfo },
+				),
+			}
+		case "scripted":
+			return {
+				selectedProvider: provider,
+				selectedModelId: "scripted",
+				selectedModelInfo: scriptedModelInfo,
 			}
 		default:
 			return getProviderData(anthropicModels, anthropicDefaultModelId)
@@ -0,0 +1,37 @@
+import { VSCodeDropdown, VSCodeOption } from "@vscode/webview-ui-toolkit/react"
+import { memo } from "react"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+
+interface ApiProfileSelectProps {
+	style?: React.CSSProperties
+}
+
+// switches the provider settings to a saved profile, also applying them to the running task
+const ApiProfileSelect = ({ style }: ApiProfileSelectProps) => {
+	const { apiConfigurationProfiles, currentApiConfigurationProfile } = useExtensionState()
+	if (apiConfigurationProfiles.length === 0) {
+		return null
+	}
+	return (
+		<VSCodeDropdown
+			// options don't reselect the value when it changes, so the dropdown is recreated instead (see ApiOptions)
+			key={`${currentApiConfigurationProfile}-${apiConfigurationProfiles.join()}`}
+			value={currentApiConfigurationProfile ?? ""}
+			onChange={(e: any) => {
+				if (e.target?.value) {
+					vscode.postMessage({ type: "loadApiConfigurationProfile", text: e.target.value })
+				}
+			}}
+			style={style}>
+			{!currentApiConfigurationProfile && <VSCodeOption value="">Unsaved settings</VSCodeOption>}
+			{apiConfigurationProfiles.map((name) => (
+				<VSCodeOption key={name} value={name}>
+					{name}
+				</VSCodeOption>
+			))}
+		</VSCodeDropdown>
+	)
+}
+
+export default memo(ApiProfileSelect)
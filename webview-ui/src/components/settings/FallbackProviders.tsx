@@ -0,0 +1,81 @@
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { memo } from "react"
+import { ApiConfiguration } from "../../../../src/shared/api"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { normalizeApiConfiguration } from "./ApiOptions"
+
+const FallbackProviders = () => {
+	const { apiConfiguration, setApiConfiguration } = useExtensionState()
+	const fallbacks = apiConfiguration?.fallbackApiConfigurations ?? []
+
+	const setFallbacks = (fallbackApiConfigurations: ApiConfiguration[]) => {
+		setApiConfiguration({ ...apiConfiguration, fallbackApiConfigurations })
+	}
+
+	const handleAddCurrent = () => {
+		if (!apiConfiguration) {
+			return
+		}
+		const { fallbackApiConfigurations, error, ...current } = apiConfiguration
+		setFallbacks([...fallbacks, current])
+	}
+
+	const handleMoveUp = (index: number) => {
+		const reordered = [...fallbacks]
+		;[reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]]
+		setFallbacks(reordered)
+	}
+
+	return (
+		<div style={{ marginBottom: 5 }}>
+			<span style={{ fontWeight: 500 }}>Fallback Providers</span>
+			{fallbacks.map((fallback, index) => {
+				const { selectedProvider, selectedModelId } = normalizeApiConfiguration(fallback)
+				return (
+					<div
+						key={index}
+						style={{
+							display: "flex",
+							alignItems: "center",
+							gap: 4,
+							marginTop: 4,
+							fontSize: "12px",
+						}}>
+						<span
+							style={{ flexGrow: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+							{index + 1}. {selectedProvider}: {selectedModelId}
+						</span>
+						<VSCodeButton
+							appearance="icon"
+							title="Try earlier"
+							disabled={index === 0}
+							onClick={() => handleMoveUp(index)}>
+							<span className="codicon codicon-arrow-up"></span>
+						</VSCodeButton>
+						<VSCodeButton
+							appearance="icon"
+							title="Remove"
+							onClick={() => setFallbacks(fallbacks.filter((_, i) => i !== index))}>
+							<span className="codicon codicon-trash"></span>
+						</VSCodeButton>
+					</div>
+				)
+			})}
+			<VSCodeButton appearance="secondary" onClick={handleAddCurrent} style={{ marginTop: 6 }}>
+				Add current provider as fallback
+			</VSCodeButton>
+			<p
+				style={{
+					fontSize: "12px",
+					marginTop: "5px",
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				When the provider above fails with an authentication, rate limit or outage error before responding,
+				these are tried in order. To add one, configure it above, add it here, then switch back to your main
+				provider.
+			</p>
+		</div>
+	)
+}
+
+export default memo(FallbackProviders)
@@ -0,0 +1,85 @@
+import { VSCodeButton, VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { memo } from "react"
+import { ApiProvider, ModelInfo, ModelInfoOverride } from "../../../../src/shared/api"
+import { setModelInfoOverride } from "../../../../src/shared/modelInfoOverrides"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+
+interface ModelInfoOverridesProps {
+	apiProvider: ApiProvider
+	modelId: string
+	modelInfo: ModelInfo
+}
+
+const NUMBER_FIELDS: { field: keyof ModelInfoOverride["info"]; label: string }[] = [
+	{ field: "contextWindow", label: "Context Window (tokens)" },
+	{ field: "maxTokens", label: "Max Output Tokens" },
+	{ field: "inputPrice", label: "Input Price ($ / 1M tokens)" },
+	{ field: "outputPrice", label: "Output Price ($ / 1M tokens)" },
+	{ field: "cacheWritesPrice", label: "Cache Writes Price ($ / 1M tokens)" },
+	{ field: "cacheReadsPrice", label: "Cache Reads Price ($ / 1M tokens)" },
+]
+
+const ModelInfoOverrides = ({ apiProvider, modelId, modelInfo }: ModelInfoOverridesProps) => {
+	const { apiConfiguration, setApiConfiguration } = useExtensionState()
+	const overrides = apiConfiguration?.modelInfoOverrides ?? []
+	const info = overrides.find((o) => o.apiProvider === apiProvider && o.modelId === modelId)?.info ?? {}
+
+	const setInfo = (field: keyof ModelInfoOverride["info"], value: number | boolean | undefined) => {
+		const { [field]: _, ...rest } = info
+		const updatedInfo = value === undefined ? rest : { ...rest, [field]: value }
+		setApiConfiguration({
+			...apiConfiguration,
+			// a model without any overridden fields goes back to the defaults, so it's removed from the table
+			modelInfoOverrides: Object.keys(updatedInfo).length
+				? setModelInfoOverride(overrides, { apiProvider, modelId, info: updatedInfo })
+				: overrides.filter((o) => o.apiProvider !== apiProvider || o.modelId !== modelId),
+		})
+	}
+
+	return (
+		<div style={{ marginBottom: 5 }}>
+			<span style={{ fontWeight: 500 }}>Model Details</span>
+			{NUMBER_FIELDS.map(({ field, label }) => (
+				<VSCodeTextField
+					key={field}
+					value={info[field]?.toString() ?? ""}
+					style={{ width: "100%", marginTop: 3 }}
+					placeholder={
+						typeof modelInfo[field] === "number" && modelInfo[field] !== -1
+							? `Default: ${modelInfo[field]}`
+							: "Unknown"
+					}
+					onInput={(e: any) => {
+						const value = parseFloat(e.target.value)
+						setInfo(field, !isNaN(value) && value >= 0 ? value : undefined)
+					}}>
+					<span style={{ fontSize: "12px" }}>{label}</span>
+				</VSCodeTextField>
+			))}
+			<VSCodeCheckbox
+				checked={modelInfo.supportsImages}
+				onChange={(e: any) => setInfo("supportsImages", e.target.checked === true)}>
+				Supports images
+			</VSCodeCheckbox>
+			<VSCodeButton
+				appearance="secondary"
+				onClick={() => vscode.postMessage({ type: "importModelInfoOverrides" })}
+				style={{ marginTop: 6 }}>
+				Import JSON...
+			</VSCodeButton>
+			<p
+				style={{
+					fontSize: "12px",
+					marginTop: "5px",
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				Cline doesn't know the details of models served through this provider. Enter them here so costs, context
+				truncation and image support match the model. Overrides are saved per provider and model ID, and can be
+				imported from a JSON array of {"{"} apiProvider, modelId, info {"}"} entries.
+			</p>
+		</div>
+	)
+}
+
+export default memo(ModelInfoOverrides)
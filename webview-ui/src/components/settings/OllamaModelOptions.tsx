@@ -0,0 +1,103 @@
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { memo, useCallback, useEffect, useState } from "react"
+import { useEvent } from "react-use"
+import { ModelInfo, ollamaDefaultNumCtx, OllamaModelOptions as ModelOptions } from "../../../../src/shared/api"
+import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+
+const OllamaModelOptions = () => {
+	const { apiConfiguration, setApiConfiguration } = useExtensionState()
+	const [reportedModelInfo, setReportedModelInfo] = useState<Partial<ModelInfo>>({})
+	const modelId = apiConfiguration?.ollamaModelId || ""
+	const modelOptions = apiConfiguration?.ollamaModelOptions?.[modelId] ?? {}
+
+	useEffect(() => {
+		setReportedModelInfo({})
+		if (apiConfiguration?.ollamaNativeApi && modelId) {
+			vscode.postMessage({ type: "requestOllamaModelInfo", apiConfiguration })
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [apiConfiguration?.ollamaNativeApi, apiConfiguration?.ollamaBaseUrl, modelId])
+
+	const handleMessage = useCallback((event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+		if (message.type === "ollamaModelInfo" && message.ollamaModelInfo) {
+			setReportedModelInfo(message.ollamaModelInfo)
+		}
+	}, [])
+	useEvent("message", handleMessage)
+
+	const setModelOptions = (options: ModelOptions) => {
+		setApiConfiguration({
+			...apiConfiguration,
+			ollamaModelOptions: { ...apiConfiguration?.ollamaModelOptions, [modelId]: { ...modelOptions, ...options } },
+		})
+	}
+
+	const parseNumber = (value: string) => {
+		const number = parseFloat(value)
+		return !isNaN(number) && number >= 0 ? number : undefined
+	}
+
+	return (
+		<div>
+			<VSCodeCheckbox
+				checked={apiConfiguration?.ollamaNativeApi ?? false}
+				onChange={(e: any) => {
+					setApiConfiguration({ ...apiConfiguration, ollamaNativeApi: e.target.checked === true })
+				}}>
+				Use Ollama's native API
+			</VSCodeCheckbox>
+			<p
+				style={{
+					fontSize: "12px",
+					marginTop: 3,
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				Loads the model with its full context length instead of Ollama's small default, and reports token usage
+				so long tasks are truncated before they overflow the context.
+			</p>
+			{apiConfiguration?.ollamaNativeApi && modelId && (
+				<>
+					<VSCodeTextField
+						value={modelOptions.numCtx?.toString() ?? ""}
+						style={{ width: "100%" }}
+						placeholder={
+							reportedModelInfo.contextWindow
+								? `Default: ${Math.min(reportedModelInfo.contextWindow, ollamaDefaultNumCtx)}`
+								: `Default: the model's context length, up to ${ollamaDefaultNumCtx}`
+						}
+						onInput={(e: any) => setModelOptions({ numCtx: parseNumber(e.target.value) })}>
+						<span style={{ fontWeight: 500 }}>Context Length (num_ctx)</span>
+					</VSCodeTextField>
+					<VSCodeTextField
+						value={modelOptions.keepAlive ?? ""}
+						style={{ width: "100%" }}
+						placeholder="Default: 5m"
+						onInput={(e: any) => setModelOptions({ keepAlive: e.target.value || undefined })}>
+						<span style={{ fontWeight: 500 }}>Keep Alive</span>
+					</VSCodeTextField>
+					<VSCodeTextField
+						value={modelOptions.temperature?.toString() ?? ""}
+						style={{ width: "100%" }}
+						placeholder="Default: 0"
+						onInput={(e: any) => setModelOptions({ temperature: parseNumber(e.target.value) })}>
+						<span style={{ fontWeight: 500 }}>Temperature</span>
+					</VSCodeTextField>
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: 3,
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						These options are saved for {modelId}. A smaller context length uses less memory, and older
+						messages are truncated to fit it.
+					</p>
+				</>
+			)}
+		</div>
+	)
+}
+
+export default memo(OllamaModelOptions)
@@ -1,9 +1,18 @@
-import { VSCodeButton, VSCodeLink, VSCodeTextArea } from "@vscode/webview-ui-toolkit/react"
+import {
+	VSCodeButton,
+	VSCodeCheckbox,
+	VSCodeDropdown,
+	VSCodeLink,
+	VSCodeOption,
+	VSCodeTextArea,
+} from "@vscode/webview-ui-toolkit/react"
 import { memo, useEffect, useState } from "react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { validateApiConfiguration, validateModelId } from "../../utils/validate"
 import { vscode } from "../../utils/vscode"
+import ApiConfigurationProfiles from "./ApiConfigurationProfiles"
 import ApiOptions from "./ApiOptions"
+import FallbackProviders from "./FallbackProviders"
 
 const IS_DEV = false // FIXME: use flags when packaging
 
@@ -12,8 +21,17 @@ type SettingsViewProps = {
 }
 
 const SettingsView = ({ onDone }: SettingsViewProps) => {
-	const { apiConfiguration, version, customInstructions, setCustomInstructions, openRouterModels } =
-		useExtensionState()
+	const {
+		apiConfiguration,
+		version,
+		customInstructions,
+		setCustomInstructions,
+		truncationStrategy,
+		setTruncationStrategy,
+		condenseOnCacheExpiry,
+		setCondenseOnCacheExpiry,
+		openRouterModels,
+	} = useExtensionState()
 	const [apiErrorMessage, setApiErrorMessage] = useState<string | undefined>(undefined)
 	const [modelIdErrorMessage, setModelIdErrorMessage] = useState<string | undefined>(undefined)
 	const handleSubmit = () => {
@@ -25,6 +43,8 @@ const SettingsView = ({ onDone }: SettingsViewProps) => {
 		if (!apiValidationResult && !modelIdValidationResult) {
 			vscode.postMessage({ type: "apiConfiguration", apiConfiguration })
 			vscode.postMessage({ type: "customInstructions", text: customInstructions })
+			vscode.postMessage({ type: "truncationStrategy", text: truncationStrategy })
+			vscode.postMessage({ type: "condenseOnCacheExpiry", bool: condenseOnCacheExpiry })
 			onDone()
 		}
 	}
@@ -76,6 +96,8 @@ const SettingsView = ({ onDone }: SettingsViewProps) => {
 			</div>
 			<div
 				style={{ flexGrow: 1, overflowY: "scroll", paddingRight: 8, display: "flex", flexDirection: "column" }}>
+				<ApiConfigurationProfiles />
+
 				<div style={{ marginBottom: 5 }}>
 					<ApiOptions
 						showModelOptions={true}
@@ -84,6 +106,8 @@ const SettingsView = ({ onDone }: SettingsViewProps) => {
 					/>
 				</div>
 
+				<FallbackProviders />
+
 				<div style={{ marginBottom: 5 }}>
 					<VSCodeTextArea
 						value={customInstructions ?? ""}
@@ -105,6 +129,49 @@ const SettingsView = ({ onDone }: SettingsViewProps) => {
 					</p>
 				</div>
 
+				<div style={{ marginBottom: 5 }}>
+					<div className="dropdown-container">
+						<label htmlFor="truncation-strategy">
+							<span style={{ fontWeight: 500 }}>Context Truncation</span>
+						</label>
+						<VSCodeDropdown
+							id="truncation-strategy"
+							value={truncationStrategy || "half"}
+							onChange={(e: any) => setTruncationStrategy(e.target?.value)}
+							style={{ width: "100%" }}>
+							<VSCodeOption value="half">Remove oldest half (default)</VSCodeOption>
+							<VSCodeOption value="cache-aligned">Cache-aligned</VSCodeOption>
+						</VSCodeDropdown>
+					</div>
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: "5px",
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						How the conversation is shortened when it nears the context window. Cache-aligned cuts as late
+						as possible so providers with automatic prompt caching can keep reusing the start of the
+						conversation.
+					</p>
+				</div>
+
+				<div style={{ marginBottom: 5 }}>
+					<VSCodeCheckbox
+						checked={condenseOnCacheExpiry ?? false}
+						onChange={(e: any) => setCondenseOnCacheExpiry(e.target.checked === true)}>
+						<span style={{ fontWeight: 500 }}>Condense context when the prompt cache expires</span>
+					</VSCodeCheckbox>
+					<p
+						style={{
+							fontSize: "12px",
+							marginTop: "5px",
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						Prompt caches expire after a few minutes without requests. When resuming a task after that, the
+						oldest half of the conversation is removed first instead of paying to cache all of it again.
+					</p>
+				</div>
+
 				{IS_DEV && (
 					<>
 						<div style={{ marginTop: "10px", marginBottom: "4px" }}>Debug</div>
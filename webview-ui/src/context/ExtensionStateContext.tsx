@@ -1,7 +1,7 @@
 import React, { createContext, useCallback, useContext, useEffect, useState } from "react"
 import { useEvent } from "react-use"
 import { DEFAULT_AUTO_APPROVAL_SETTINGS } from "../../../src/shared/AutoApprovalSettings"
-import { ExtensionMessage, ExtensionState } from "../../../src/shared/ExtensionMessage"
+import { ExtensionMessage, ExtensionState, TruncationStrategyName } from "../../../src/shared/ExtensionMessage"
 import {
 	ApiConfiguration,
 	ModelInfo,
@@ -22,6 +22,8 @@ interface ExtensionStateContextType extends ExtensionState {
 	filePaths: string[]
 	setApiConfiguration: (config: ApiConfiguration) => void
 	setCustomInstructions: (value?: string) => void
+	setTruncationStrategy: (value?: TruncationStrategyName) => void
+	setCondenseOnCacheExpiry: (value: boolean) => void
 	setShowAnnouncement: (value: boolean) => void
 }
 
@@ -30,6 +32,7 @@ const ExtensionStateContext = createContext<ExtensionStateContextType | undefine
 export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 	const [state, setState] = useState<ExtensionState>({
 		version: "",
+		apiConfigurationProfiles: [],
 		clineMessages: [],
 		taskHistory: [],
 		shouldShowAnnouncement: false,
@@ -59,8 +62,10 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 							config.openAiApiKey,
 							config.ollamaModelId,
 							config.lmStudioModelId,
+							config.llamaCppBaseUrl,
 							config.geminiApiKey,
 							config.openAiNativeApiKey,
+							config.deepSeekApiKey,
 						].some((key) => key !== undefined)
 					: false
 				setShowWelcome(!hasKey)
@@ -122,6 +127,8 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		filePaths,
 		setApiConfiguration: (value) => setState((prevState) => ({ ...prevState, apiConfiguration: value })),
 		setCustomInstructions: (value) => setState((prevState) => ({ ...prevState, customInstructions: value })),
+		setTruncationStrategy: (value) => setState((prevState) => ({ ...prevState, truncationStrategy: value })),
+		setCondenseOnCacheExpiry: (value) => setState((prevState) => ({ ...prevState, condenseOnCacheExpiry: value })),
 		setShowAnnouncement: (value) => setState((prevState) => ({ ...prevState, shouldShowAnnouncement: value })),
 	}
 
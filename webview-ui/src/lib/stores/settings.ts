@@ -7,4 +7,4 @@ export const latestBranchStore = atom<boolean>(false);
 export const promptStore = atom<string>('');
 export const providersStore = atom<Record<string, any>>({});
 
-export const LOCAL_PROVIDERS = ['ollama', 'lmstudio'];
\ No newline at end of file
+export const LOCAL_PROVIDERS = ['ollama', 'lmstudio', 'llamacpp'];
\ No newline at end of file
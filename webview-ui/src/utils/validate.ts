@@ -33,6 +33,11 @@ export function validateApiConfiguration(apiConfiguration?: ApiConfiguration): s
 					return "You must provide a valid API key or choose a different provider."
 				}
 				break
+			case "deepseek":
+				if (!apiConfiguration.deepSeekApiKey) {
+					return "You must provide a valid API key or choose a different provider."
+				}
+				break
 			case "openai":
 				if (
 					!apiConfiguration.openAiBaseUrl ||
@@ -52,6 +57,16 @@ export function validateApiConfiguration(apiConfiguration?: ApiConfiguration): s
 					return "You must provide a valid model ID."
 				}
 				break
+			case "llamacpp":
+				if (!apiConfiguration.llamaCppBaseUrl || !apiConfiguration.llamaCppModelId) {
+					return "You must provide a valid base URL and model ID."
+				}
+				break
+			case "scripted":
+				if (!apiConfiguration.scriptedResponsesPath) {
+					return "You must provide the path of a script."
+				}
+				break
 		}
 	}
 	return undefined